@@ -0,0 +1,76 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder } from "./utils";
+
+export const attestationFileName = "attestation.json";
+
+export interface AttestationFile {
+  filename: string;
+  hash: string;
+  // Hex contribution hash snarkjs printed for the contribution added to this zkey, the contributor's public receipt
+  contributionHash?: string;
+}
+
+// Public random beacon applied by the final contribution
+export interface BeaconParams {
+  hash: string;
+  numIterationsExp: number;
+  // Where the beacon value comes from, e.g. the block it is the hash of
+  source?: string;
+}
+
+// The folder the contribution was built on, with the SHA-256 of its attestation.json (null if it has none)
+export interface PredecessorReference {
+  folder: string;
+  attestationSha256: string | null;
+}
+
+export interface AttestationSignature {
+  // "ssh": SSHSIG made with ssh-keygen -Y sign, e.g. with the SSH key registered on GitHub
+  // "ed25519": raw Ed25519 signature made with a PEM private key
+  type: "ssh" | "ed25519";
+  // OpenSSH public key of an ed25519 signature, e.g. "ssh-ed25519 AAAA..."; SSHSIG signatures embed it
+  publicKey?: string;
+  // Armored SSHSIG or base64 Ed25519 signature of the attestation without this field
+  signature: string;
+}
+
+export interface Attestation {
+  // Id from ceremony.json, missing in attestations written before it existed
+  ceremonyId?: string;
+  contributor: string;
+  contributionNumber: string;
+  timestamp: string;
+  files: AttestationFile[];
+  // Only present in the attestation of the initial folder, the circuits the initial zkeys were set up from
+  r1cs?: AttestationFile[];
+  // Only present in the attestation of the final folder
+  beacon?: BeaconParams;
+  predecessor?: PredecessorReference;
+  signature?: AttestationSignature;
+}
+
+export function getAttestationPath(folderName: string): string {
+  return path.join(contributionRootFolder, folderName, attestationFileName);
+}
+
+export function writeAttestation(folderName: string, attestation: Attestation): string {
+  const attestationPath = getAttestationPath(folderName);
+  fs.writeFileSync(attestationPath, JSON.stringify(attestation, null, 2));
+  return attestationPath;
+}
+
+// Read and minimally validate the attestation of a contribution folder, returns null if it doesn't exist
+export function readAttestation(folderName: string): Attestation | null {
+  const attestationPath = getAttestationPath(folderName);
+  if (!fs.existsSync(attestationPath)) {
+    return null;
+  }
+
+  const attestation = JSON.parse(fs.readFileSync(attestationPath, "utf8"));
+  if (!attestation || !Array.isArray(attestation.files)) {
+    throw new Error(`Malformed attestation in ${folderName}: missing files list`);
+  }
+
+  return attestation as Attestation;
+}
@@ -0,0 +1,235 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import { contributionRootFolder, computeFileHash } from "./utils";
+import { getCeremonyConfig, isContributionFolder } from "./config";
+import { getPtauConfig } from "./ptau";
+
+// Bundles carry contribution folders to and from an air-gapped machine in a single file:
+// the magic line, the length of the manifest (uint32, big-endian), the JSON manifest, then every file in manifest order
+const BUNDLE_MAGIC = Buffer.from("ZK-CEREMONY-BUNDLE\n");
+const BUNDLE_VERSION = 1;
+const COPY_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface ContributionConfig {
+  contributionNumber: string;
+  githubUsername: string;
+  folderName: string;
+  timestamp: string;
+}
+
+export interface ZkeyContribution {
+  filename: string;
+  hash: string;
+  contributionHash: string;
+}
+
+export interface ContributionResult {
+  config: ContributionConfig;
+  // Folder the contribution was built on
+  predecessorFolder: string;
+  contributions: ZkeyContribution[];
+}
+
+export interface BundleFile {
+  // Path relative to the contributions folder, "/" separated
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BundleManifest {
+  version: number;
+  // A request goes to the offline machine with the folders to build on, a response comes back with the contribution
+  kind: "request" | "response";
+  ceremonyId: string;
+  createdAt: string;
+  // The contribution to make, for a request; its timestamp is replaced when contributing
+  config?: ContributionConfig;
+  predecessorFolder?: string;
+  // The contribution that was made, for a response
+  result?: ContributionResult;
+  files: BundleFile[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+// Write the files, given relative to the contributions folder, into a bundle with their hashes in the manifest
+export function writeBundle(bundlePath: string, manifest: Omit<BundleManifest, "version" | "ceremonyId" | "createdAt" | "files">, files: string[]): BundleManifest {
+  const complete: BundleManifest = {
+    version: BUNDLE_VERSION,
+    ...manifest,
+    ceremonyId: getCeremonyConfig().ceremonyId,
+    createdAt: new Date().toISOString(),
+    files: files.map((file) => {
+      const localPath = path.join(contributionRootFolder, file);
+      return { path: file.split(path.sep).join("/"), size: fs.statSync(localPath).size, sha256: computeFileHash(localPath) };
+    }),
+  };
+  const manifestJson = Buffer.from(JSON.stringify(complete, null, 2));
+  const manifestLength = Buffer.alloc(4);
+  manifestLength.writeUInt32BE(manifestJson.length);
+
+  const tempPath = `${bundlePath}.partial`;
+  const fd = fs.openSync(tempPath, "w");
+  try {
+    fs.writeSync(fd, Buffer.concat([BUNDLE_MAGIC, manifestLength, manifestJson]));
+    const chunk = Buffer.alloc(COPY_CHUNK_SIZE);
+    for (const file of files) {
+      const input = fs.openSync(path.join(contributionRootFolder, file), "r");
+      try {
+        let bytesRead: number;
+        while ((bytesRead = fs.readSync(input, chunk, 0, chunk.length, null)) > 0) {
+          fs.writeSync(fd, chunk, 0, bytesRead);
+        }
+      } finally {
+        fs.closeSync(input);
+      }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, bundlePath);
+  return complete;
+}
+
+function readManifest(fd: number, bundlePath: string): { manifest: BundleManifest; dataOffset: number } {
+  const header = Buffer.alloc(BUNDLE_MAGIC.length + 4);
+  if (fs.readSync(fd, header, 0, header.length, 0) !== header.length || !header.subarray(0, BUNDLE_MAGIC.length).equals(BUNDLE_MAGIC)) {
+    throw new BundleError(`${bundlePath} is not a ceremony bundle`);
+  }
+  const manifestLength = header.readUInt32BE(BUNDLE_MAGIC.length);
+  const manifestJson = Buffer.alloc(manifestLength);
+  if (fs.readSync(fd, manifestJson, 0, manifestLength, header.length) !== manifestLength) {
+    throw new BundleError(`${bundlePath} is truncated`);
+  }
+
+  const manifest = JSON.parse(manifestJson.toString("utf8")) as BundleManifest;
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new BundleError(`Unsupported bundle version ${manifest.version} in ${bundlePath}, expected ${BUNDLE_VERSION}`);
+  }
+  if (manifest.ceremonyId !== getCeremonyConfig().ceremonyId) {
+    throw new BundleError(`${bundlePath} belongs to ceremony ${manifest.ceremonyId}, not ${getCeremonyConfig().ceremonyId}`);
+  }
+  return { manifest, dataOffset: header.length + manifestLength };
+}
+
+export function readBundleManifest(bundlePath: string): BundleManifest {
+  const fd = fs.openSync(bundlePath, "r");
+  try {
+    return readManifest(fd, bundlePath).manifest;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// A request may only hold the initial folder, the predecessor and the ptau, a response only the new folder.
+// Anything else, like "../" paths, is refused before a single file is written.
+function checkBundlePaths(manifest: BundleManifest): void {
+  const { initialFolder } = getCeremonyConfig();
+  const allowed =
+    manifest.kind === "request"
+      ? [initialFolder, manifest.predecessorFolder, getPtauConfig().fileName]
+      : [manifest.result?.config.folderName];
+
+  for (const file of manifest.files) {
+    const segments = file.path.split("/");
+    const valid =
+      allowed.includes(segments[0]) &&
+      (segments[0] === getPtauConfig().fileName ? segments.length === 1 : isContributionFolder(segments[0]) && segments.length === 2) &&
+      segments.every((segment) => segment !== "" && segment !== "." && segment !== "..");
+    if (!valid) {
+      throw new BundleError(`Unexpected file ${file.path} in the ${manifest.kind} bundle`);
+    }
+  }
+}
+
+// Unpack a bundle into the contributions folder. Every file is checked against the hash in the manifest, files already
+// present with the same content are kept and a different one is never overwritten.
+export function extractBundle(bundlePath: string): BundleManifest {
+  const fd = fs.openSync(bundlePath, "r");
+  try {
+    const { manifest, dataOffset } = readManifest(fd, bundlePath);
+    checkBundlePaths(manifest);
+
+    const present = new Set<string>();
+    for (const file of manifest.files) {
+      const localPath = path.join(contributionRootFolder, ...file.path.split("/"));
+      if (fs.existsSync(localPath)) {
+        if (computeFileHash(localPath) !== file.sha256) {
+          throw new BundleError(`${file.path} already exists with a different content, refusing to overwrite it`);
+        }
+        present.add(file.path);
+      }
+    }
+
+    const expectedSize = manifest.files.reduce((size, file) => size + file.size, dataOffset);
+    if (fs.fstatSync(fd).size !== expectedSize) {
+      throw new BundleError(`${bundlePath} has ${fs.fstatSync(fd).size} bytes, its manifest describes ${expectedSize}`);
+    }
+
+    // A corrupted file removes the ones written before it, no half unpacked folder is left behind
+    const written: string[] = [];
+    try {
+      let position = dataOffset;
+      const chunk = Buffer.alloc(COPY_CHUNK_SIZE);
+      for (const file of manifest.files) {
+        const localPath = path.join(contributionRootFolder, ...file.path.split("/"));
+        const start = position;
+        position += file.size;
+
+        if (present.has(file.path)) {
+          console.log(`${file.path} already present`);
+          continue;
+        }
+
+        if (!fs.existsSync(path.dirname(localPath))) {
+          fs.ensureDirSync(path.dirname(localPath));
+          written.push(path.dirname(localPath));
+        }
+        const tempPath = `${localPath}.partial`;
+        written.push(tempPath);
+        const output = fs.openSync(tempPath, "w");
+        const hash = crypto.createHash("sha256");
+        try {
+          for (let offset = start; offset < position; ) {
+            const bytesRead = fs.readSync(fd, chunk, 0, Math.min(chunk.length, position - offset), offset);
+            hash.update(chunk.subarray(0, bytesRead));
+            fs.writeSync(output, chunk, 0, bytesRead);
+            offset += bytesRead;
+          }
+        } finally {
+          fs.closeSync(output);
+        }
+
+        const actualHash = hash.digest("hex");
+        if (actualHash !== file.sha256) {
+          throw new BundleError(`SHA-256 mismatch for ${file.path}: manifest has ${file.sha256}, bundle contains ${actualHash}`);
+        }
+        fs.renameSync(tempPath, localPath);
+        written.push(localPath);
+        console.log(`✅ ${file.path}`);
+      }
+    } catch (error) {
+      written.forEach((file) => fs.removeSync(file));
+      throw error;
+    }
+    return manifest;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Every file of a contribution folder, relative to the contributions folder
+export function listFolderFiles(folder: string): string[] {
+  return fs
+    .readdirSync(path.join(contributionRootFolder, folder))
+    .filter((file) => fs.statSync(path.join(contributionRootFolder, folder, file)).isFile())
+    .sort()
+    .map((file) => path.join(folder, file));
+}
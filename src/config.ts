@@ -0,0 +1,203 @@
+import * as fs from "fs-extra";
+import type { StorageBackend } from "./storage";
+
+const CONFIG_VERSION = 1;
+const DEFAULT_CONFIG_FILE = "./ceremony.json";
+// Placeholder for the circuit name in per circuit artifacts, e.g. "{circuit}.zkey"
+const CIRCUIT_PLACEHOLDER = "{circuit}";
+
+export interface CircuitConfig {
+  name: string;
+  // Expected hashes, checked when set
+  r1csSha256?: string;
+  initialZkeySha256?: string;
+}
+
+export interface PtauReference {
+  power: number;
+  file: string;
+  blake2b?: string;
+  sha256?: string;
+}
+
+export interface CeremonyConfig {
+  version: number;
+  ceremonyId: string;
+  circuits: CircuitConfig[];
+  ptau: PtauReference;
+  storage: { backend: StorageBackend };
+  // Contribution folders are named <zero padded number>_<name>
+  numbering: { digits: number };
+  initialFolder: string;
+  // Files every folder must contain, per circuit artifacts use the {circuit} placeholder
+  artifacts: { initial: string[]; contribution: string[] };
+}
+
+export class CeremonyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CeremonyConfigError";
+  }
+}
+
+let config: CeremonyConfig | null = null;
+
+export function getCeremonyConfigPath(): string {
+  return process.env.CEREMONY_CONFIG || DEFAULT_CONFIG_FILE;
+}
+
+function isHash(value: unknown, length: number): boolean {
+  return typeof value === "string" && new RegExp(`^[0-9a-f]{${length}}$`).test(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && item.length > 0);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// Validate the parsed ceremony.json, collecting every problem instead of stopping at the first one
+export function validateCeremonyConfig(raw: unknown, source: string): CeremonyConfig {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    throw new CeremonyConfigError(`${source} must contain a JSON object`);
+  }
+
+  if (raw.version !== CONFIG_VERSION) {
+    errors.push(`unsupported version ${raw.version}, expected ${CONFIG_VERSION}`);
+  }
+  if (typeof raw.ceremonyId !== "string" || !raw.ceremonyId) {
+    errors.push("ceremonyId must be a non-empty string");
+  }
+
+  if (!Array.isArray(raw.circuits) || raw.circuits.length === 0) {
+    errors.push("circuits must be a non-empty list");
+  } else {
+    const names = new Set<string>();
+    raw.circuits.forEach((circuit: unknown, i: number) => {
+      if (!isObject(circuit) || typeof circuit.name !== "string" || !/^[A-Za-z0-9_-]+$/.test(circuit.name)) {
+        errors.push(`circuits[${i}].name must be a plain file name`);
+        return;
+      }
+      if (names.has(circuit.name)) {
+        errors.push(`circuit ${circuit.name} is listed twice`);
+      }
+      names.add(circuit.name);
+      if (circuit.r1csSha256 !== undefined && !isHash(circuit.r1csSha256, 64)) {
+        errors.push(`circuits[${i}].r1csSha256 must be a lowercase hex SHA-256`);
+      }
+      if (circuit.initialZkeySha256 !== undefined && !isHash(circuit.initialZkeySha256, 64)) {
+        errors.push(`circuits[${i}].initialZkeySha256 must be a lowercase hex SHA-256`);
+      }
+    });
+  }
+
+  const ptau = isObject(raw.ptau) ? raw.ptau : {};
+  if (!isIntegerBetween(ptau.power, 1, 28)) {
+    errors.push("ptau.power must be a number between 1 and 28");
+  }
+  if (typeof ptau.file !== "string" || !ptau.file.endsWith(".ptau")) {
+    errors.push("ptau.file must be the name of a .ptau file");
+  }
+  if (ptau.blake2b !== undefined && !isHash(ptau.blake2b, 128)) {
+    errors.push("ptau.blake2b must be a lowercase hex Blake2b-512");
+  }
+  if (ptau.sha256 !== undefined && !isHash(ptau.sha256, 64)) {
+    errors.push("ptau.sha256 must be a lowercase hex SHA-256");
+  }
+
+  if (!isObject(raw.storage) || (raw.storage.backend !== "s3" && raw.storage.backend !== "local")) {
+    errors.push('storage.backend must be "s3" or "local"');
+  }
+
+  const digits = isObject(raw.numbering) ? raw.numbering.digits : undefined;
+  if (!isIntegerBetween(digits, 1, 10)) {
+    errors.push("numbering.digits must be a number between 1 and 10");
+  } else if (typeof raw.initialFolder !== "string" || !new RegExp(`^0{${digits}}_[A-Za-z0-9_-]+$`).test(raw.initialFolder)) {
+    errors.push(`initialFolder must be named ${"0".repeat(digits)}_<name>`);
+  }
+
+  if (!isObject(raw.artifacts) || !isStringList(raw.artifacts.initial) || !isStringList(raw.artifacts.contribution)) {
+    errors.push("artifacts.initial and artifacts.contribution must be lists of file names");
+  }
+
+  if (errors.length > 0) {
+    throw new CeremonyConfigError(`Invalid ceremony configuration ${source}:\n- ${errors.join("\n- ")}`);
+  }
+  // Every field was checked above
+  return raw as unknown as CeremonyConfig;
+}
+
+// Load and validate ceremony.json once per process
+export function getCeremonyConfig(): CeremonyConfig {
+  if (!config) {
+    const configPath = getCeremonyConfigPath();
+    if (!fs.existsSync(configPath)) {
+      throw new CeremonyConfigError(`Ceremony configuration ${configPath} not found`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    } catch (error) {
+      throw new CeremonyConfigError(`Ceremony configuration ${configPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    config = validateCeremonyConfig(raw, configPath);
+  }
+  return config;
+}
+
+export function getCircuitNames(): string[] {
+  return getCeremonyConfig().circuits.map((circuit) => circuit.name);
+}
+
+export function isContributionFolder(folder: string): boolean {
+  return new RegExp(`^\\d{${getCeremonyConfig().numbering.digits}}_`).test(folder);
+}
+
+// The contributor name ends up in the folder name, it must be a GitHub username and can't be the beacon's
+export function checkContributorName(name: string): void {
+  if (!/^[A-Za-z0-9][A-Za-z0-9-]*$/.test(name)) {
+    throw new Error(`Invalid GitHub username: ${JSON.stringify(name)}`);
+  }
+  if (name === "final") {
+    throw new Error("The name 'final' is reserved for the beacon finalization");
+  }
+}
+
+export function getFolderNumber(folder: string): number {
+  return parseInt(folder.substring(0, getCeremonyConfig().numbering.digits), 10);
+}
+
+export function formatContributionNumber(contributionNumber: number): string {
+  return contributionNumber.toString().padStart(getCeremonyConfig().numbering.digits, "0");
+}
+
+// Number of the contribution following the given folder
+export function getNextContributionNumber(previousFolder: string): string {
+  return formatContributionNumber(getFolderNumber(previousFolder) + 1);
+}
+
+export interface RequiredArtifact {
+  // null for files the folder needs once, like the attestation
+  circuitName: string | null;
+  file: string;
+}
+
+// Every file the folder must contain, with per circuit artifacts expanded for all circuits
+export function getRequiredArtifacts(folder: string): RequiredArtifact[] {
+  const { artifacts, initialFolder } = getCeremonyConfig();
+  const patterns = folder === initialFolder ? artifacts.initial : artifacts.contribution;
+
+  return patterns.flatMap((pattern): RequiredArtifact[] =>
+    pattern.includes(CIRCUIT_PLACEHOLDER)
+      ? getCircuitNames().map((circuitName) => ({ circuitName, file: pattern.split(CIRCUIT_PLACEHOLDER).join(circuitName) }))
+      : [{ circuitName: null, file: pattern }]
+  );
+}
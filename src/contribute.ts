@@ -1,65 +1,180 @@
 import * as fs from "fs-extra";
-import { execSync } from "child_process";
+import { StdioOptions } from "child_process";
 import * as readlineSync from "readline-sync";
 import * as path from "path";
-import * as crypto from "crypto";
-import { contributionRootFolder, getContributionFolders, getZkeyFiles, downloadLatestContribution, ensureInitialSetup, uploadToS3, crossCheckFilesWithS3, checkRequiredEnvVars } from "./utils";
+import { parseArgs } from "util";
+import { contributionRootFolder, getContributionFolders, downloadLatestContribution, ensureInitialSetup, ensurePtauFile, uploadToStorage, verifyUploadedFolder, removeFailedUpload, checkRequiredEnvVars, computeFileHash, isFinalFolder, UploadedFileCheck } from "./utils";
+import { readZkeyMpcParams } from "./zkey";
+import { printContributionReceipt } from "./receipt";
+import { keystrokeEntropySource, parseEntropySource, printEntropyReport, EntropyPool, EntropySource } from "./entropy";
+import { verifyAttestedFolder } from "./custody";
+import { verifyContributions, verifyNewContribution, VerificationResult } from "./verification";
+import { getPtauConfig } from "./ptau";
+import { VerificationCache } from "./verificationCache";
+import { contributeToZkeyFile, releaseSnarkjs, writeZkeyVerificationKey } from "./snarkjsApi";
+import { writeAttestation, readAttestation, Attestation } from "./attestation";
+import { checkSigningKey, getPredecessorReference, getSigningKeyPath, signAttestation } from "./signing";
+import { getCeremonyConfig, getCircuitNames, checkContributorName, isContributionFolder, formatContributionNumber, getNextContributionNumber } from "./config";
+import { assertFolderLayout, assertInitialSetup } from "./layout";
+import { createStaging, getReusableCircuits, getStagedFolder, listStagedContributions, promoteStaging, recordStagedCircuit, removeStaging, StagingState } from "./staging";
+import { acquireSlotLock, ContributionSlot } from "./lock";
+import { getCoordinatorUrl, joinCoordinatorQueue, downloadFromCoordinator, CoordinatorTurn } from "./coordinatorClient";
+import { extractBundle, listFolderFiles, writeBundle, ContributionConfig, ContributionResult, ZkeyContribution } from "./bundle";
+
+interface ContributeOptions {
+  githubUsername?: string;
+  // Never prompt: the name must be given and extra entropy only comes from --entropy-source and --entropy-file
+  nonInteractive: boolean;
+  extraEntropy: boolean;
+  // Entropy source specifications, see parseEntropySource
+  entropySources: string[];
+  sourceFolder?: string;
+  upload: boolean;
+  // Key the attestation is signed with, OpenSSH or Ed25519 PEM private key
+  signingKey?: string;
+  // Continue an interrupted contribution, only redoing the circuits that didn't complete
+  resume: boolean;
+  // Contribute on top of the source folder even if it fails the pre-flight verification
+  skipPreflight: boolean;
+  // Also verify every contribution of the source folder with zkvi before contributing
+  fullPreflight: boolean;
+  // Contribute on an air-gapped machine from the request bundle made by npm run prepare-bundle
+  offline: boolean;
+  bundle?: string;
+}
 
-interface ContributionConfig {
-  contributionNumber: string;
-  githubUsername: string;
-  folderName: string;
-  timestamp: string;
+// Printed on stdout in non-interactive mode, all other output goes to stderr
+interface ContributionSummary {
+  success: boolean;
+  // The new folder passed the same checks the coordinator runs
+  verified: boolean;
+  // Uploaded and confirmed identical in storage, or accepted by the coordinator
+  uploaded: boolean;
+  // Response bundle to take back online, in offline mode
+  responseBundle?: string;
+  result?: ContributionResult;
+  error?: string;
 }
 
-interface ZkeyContribution {
-  filename: string;
-  hash: string;
+// Output of child processes like ssh-keygen, moved to stderr in non-interactive mode to keep stdout machine-readable
+let commandStdio: StdioOptions = "inherit";
+
+function isEnabled(value: string | undefined): boolean {
+  return !!value && ["1", "true", "yes"].includes(value.toLowerCase());
 }
 
-interface ContributionResult {
-  config: ContributionConfig;
-  contributions: ZkeyContribution[];
+// Decided before the arguments are parsed, so a parse error still ends with the JSON summary
+function isNonInteractiveRun(args: string[]): boolean {
+  const { values } = parseArgs({ args, strict: false, options: { yes: { type: "boolean", short: "y" } } });
+  return !!values.yes || isEnabled(process.env.CEREMONY_NON_INTERACTIVE);
 }
 
-function generateSecureEntropy(): string {
-  return crypto.randomBytes(128).toString("hex");
+function parseContributeOptions(args: string[]): ContributeOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      name: { type: "string" },
+      "no-extra-entropy": { type: "boolean" },
+      "entropy-file": { type: "string", multiple: true },
+      "entropy-source": { type: "string", multiple: true },
+      "source-folder": { type: "string" },
+      "no-upload": { type: "boolean" },
+      key: { type: "string" },
+      resume: { type: "boolean" },
+      "skip-preflight": { type: "boolean" },
+      "full-preflight": { type: "boolean" },
+      offline: { type: "boolean" },
+      bundle: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+    },
+  });
+
+  return {
+    githubUsername: values.name || process.env.CEREMONY_CONTRIBUTOR || undefined,
+    nonInteractive: !!values.yes || isEnabled(process.env.CEREMONY_NON_INTERACTIVE),
+    extraEntropy: !values["no-extra-entropy"],
+    entropySources: [
+      ...(values["entropy-file"] || (process.env.CEREMONY_ENTROPY_FILE ? [process.env.CEREMONY_ENTROPY_FILE] : [])).map((file) => `file:${file}`),
+      ...(values["entropy-source"] || []),
+    ],
+    sourceFolder: values["source-folder"],
+    upload: !values["no-upload"],
+    signingKey: getSigningKeyPath(values.key) || undefined,
+    resume: !!values.resume,
+    skipPreflight: !!values["skip-preflight"],
+    fullPreflight: !!values["full-preflight"] || isEnabled(process.env.CEREMONY_FULL_PREFLIGHT),
+    offline: !!values.offline,
+    bundle: values.bundle,
+  };
 }
 
-function generateSystemEntropy(): string {
-  try {
-    const systemEntropy = execSync("LC_ALL=C tr -dc 'A-F0-9' < /dev/urandom | head -c32", {
-      encoding: "utf8",
-    });
-    console.log("System entropy added from /dev/urandom");
-    return systemEntropy;
-  } catch (error) {
-    // First fallback using hexdump if available
-    try {
-      const systemEntropy = execSync("head -c16 /dev/urandom | xxd -p | tr -d '\\n'", {
-        encoding: "utf8",
-      });
-      console.log("System entropy added using /dev/urandom and xxd");
-      return systemEntropy;
-    } catch (innerError) {
-      console.log("Could not generate system entropy. Skipping.");
-      return "";
-    }
+function validateContributeOptions(options: ContributeOptions): void {
+  if (options.githubUsername !== undefined) {
+    checkContributorName(options.githubUsername);
+  }
+  // Offline, the name comes from the request bundle
+  if (options.nonInteractive && !options.githubUsername && !options.offline) {
+    throw new Error("--name (or CEREMONY_CONTRIBUTOR) is required in non-interactive mode");
+  }
+  if (!options.extraEntropy && options.entropySources.length > 0) {
+    throw new Error("--no-extra-entropy can't be used with --entropy-file or --entropy-source");
+  }
+  // Fail before the slot is taken on a missing file or device
+  options.entropySources.forEach(parseEntropySource);
+  if (options.nonInteractive && options.entropySources.some((spec) => spec.startsWith("keystrokes"))) {
+    throw new Error("Keystroke entropy can't be collected in non-interactive mode");
+  }
+  if (options.sourceFolder !== undefined && !isContributionFolder(options.sourceFolder)) {
+    throw new Error(`Invalid source folder ${options.sourceFolder}, expected a contribution folder like 0003_username`);
+  }
+  if (options.signingKey) {
+    checkSigningKey(options.signingKey);
+  }
+  if (options.offline !== !!options.bundle) {
+    throw new Error("--offline and --bundle <file> must be used together");
+  }
+  if (options.offline && options.sourceFolder) {
+    throw new Error("--source-folder can't be used with --offline, the source folder comes from the bundle");
+  }
+  if (options.bundle && !fs.existsSync(options.bundle)) {
+    throw new Error(`Bundle ${options.bundle} not found`);
   }
 }
 
-function collectAdditionalEntropy(): string {
-  if (readlineSync.keyInYN("Would you like to add additional entropy by typing random keys?")) {
-    const additionalEntropy = readlineSync.question("Please mash your keyboard randomly (hidden input): ", {
-      hideEchoBack: true,
-    });
-    console.log("Additional entropy received");
-    return additionalEntropy;
+// Unpack the request bundle and build on the folder it carries, the storage and the coordinator are never contacted
+function takeRequestBundle(options: ContributeOptions): void {
+  console.log(`\nUnpacking ${options.bundle}...`);
+  const manifest = extractBundle(options.bundle!);
+  if (manifest.kind !== "request" || !manifest.config || !manifest.predecessorFolder) {
+    throw new Error(`${options.bundle} is not a request bundle, create one with npm run prepare-bundle`);
+  }
+  if (options.githubUsername && options.githubUsername !== manifest.config.githubUsername) {
+    throw new Error(`${options.bundle} was prepared for ${manifest.config.githubUsername}, not ${options.githubUsername}`);
+  }
+
+  options.githubUsername = manifest.config.githubUsername;
+  options.sourceFolder = manifest.predecessorFolder;
+  options.upload = false;
+  console.log(`Contributing ${manifest.config.folderName} on top of ${manifest.predecessorFolder}`);
+}
+
+// Pack the new folder with its result for npm run submit-bundle, next to the request bundle
+function writeResponseBundle(result: ContributionResult, requestBundle: string): string {
+  const bundlePath = path.join(path.dirname(requestBundle), `${result.config.folderName}.response.bundle`);
+  writeBundle(bundlePath, { kind: "response", result }, listFolderFiles(result.config.folderName));
+  return bundlePath;
+}
+
+// The entropy sources of the contribution besides the system CSPRNG, which is always used
+function getEntropySources(options: ContributeOptions): EntropySource[] {
+  const sources = options.entropySources.map(parseEntropySource);
+  if (sources.length === 0 && options.extraEntropy && !options.nonInteractive && readlineSync.keyInYN("Would you like to add additional entropy by typing random keys?")) {
+    sources.push(keystrokeEntropySource());
   }
-  return "";
+  return sources;
 }
 
-function setupContribution(): ContributionConfig {
+async function setupContribution(githubUsername: string, sourceFolder?: string): Promise<ContributionConfig> {
   // Ensure the contributions folder exists
   fs.ensureDirSync(contributionRootFolder);
 
@@ -67,41 +182,49 @@ function setupContribution(): ContributionConfig {
 
   let contributionNumber: string;
 
-  if (contributionFolders.length === 0) {
+  if (sourceFolder) {
+    // Explicit source folder: build on it as it is available locally
+    if (!contributionFolders.includes(sourceFolder)) {
+      throw new Error(`Source folder ${sourceFolder} not found in ${contributionRootFolder}`);
+    }
+    contributionNumber = getNextContributionNumber(sourceFolder);
+  } else if (contributionFolders.length === 0) {
     // First contribution case
-    console.log("No contribution folders found locally. Checking S3...");
-    const s3Folder = downloadLatestContribution();
+    console.log("No contribution folders found locally. Checking storage...");
+    const storageFolder = await downloadLatestContribution();
+    const { initialFolder } = getCeremonyConfig();
 
-    if (!s3Folder && !fs.existsSync(path.join(contributionRootFolder, "0000_initial"))) {
+    if (!storageFolder && !fs.existsSync(path.join(contributionRootFolder, initialFolder))) {
       throw new Error(
-        "Initial setup folder '0000_initial' not found. Please ensure it exists with the initial circuit files.\n" +
+        `Initial setup folder '${initialFolder}' not found. Please ensure it exists with the initial circuit files.\n` +
           "This could be due to:\n" +
-          "1. Missing AWS credentials - check your .env file or AWS CLI configuration\n" +
-          "2. The initial setup hasn't been uploaded to S3 yet\n" +
-          "3. The S3 bucket configuration is incorrect\n" +
+          "1. Missing AWS credentials - check your .env file\n" +
+          "2. The initial setup hasn't been uploaded to storage yet\n" +
+          "3. The S3 bucket or CEREMONY_STORAGE_DIR configuration is incorrect\n" +
           "Please refer to the README.md troubleshooting section for more information."
       );
     }
 
-    // Get the updated list of folders after potential S3 download
+    // Get the updated list of folders after potential download
     const updatedFolders = getContributionFolders();
     if (updatedFolders.length === 0) {
-      contributionNumber = "0001";
+      contributionNumber = formatContributionNumber(1);
     } else {
-      const lastFolder = updatedFolders[updatedFolders.length - 1];
-      const lastContribution = parseInt(lastFolder.substring(0, 4));
-      contributionNumber = (lastContribution + 1).toString().padStart(4, "0");
+      contributionNumber = getNextContributionNumber(updatedFolders[updatedFolders.length - 1]);
     }
   } else {
-    const lastFolder = contributionFolders[contributionFolders.length - 1];
-    const lastContribution = parseInt(lastFolder.substring(0, 4));
-    contributionNumber = (lastContribution + 1).toString().padStart(4, "0");
+    contributionNumber = getNextContributionNumber(contributionFolders[contributionFolders.length - 1]);
   }
 
-  const githubUsername = readlineSync.question("Enter your GitHub username: ");
-  const folderName = `${contributionNumber}_${githubUsername}`;
+  const predecessor = sourceFolder || getContributionFolders().pop();
+  if (predecessor && isFinalFolder(predecessor)) {
+    throw new Error(`The ceremony was finalized in ${predecessor}, no more contributions are accepted`);
+  }
 
-  fs.mkdirSync(path.join(contributionRootFolder, folderName), { recursive: true });
+  const folderName = `${contributionNumber}_${githubUsername}`;
+  if (fs.existsSync(path.join(contributionRootFolder, folderName))) {
+    throw new Error(`${folderName} already exists in ${contributionRootFolder}`);
+  }
 
   return {
     contributionNumber,
@@ -111,133 +234,411 @@ function setupContribution(): ContributionConfig {
   };
 }
 
-function contributeToZkey(zkeyFile: string, lastFolder: string, config: ContributionConfig, baseEntropy: string): ZkeyContribution {
+// Output goes to the staging folder of the contribution
+async function contributeToZkey(zkeyFile: string, lastFolder: string, config: ContributionConfig, circuitKey: Buffer): Promise<ZkeyContribution> {
   console.log(`\nProcessing ${zkeyFile}...`);
 
+  const stagedFolder = getStagedFolder(config.folderName);
   const latestZkey = path.join(contributionRootFolder, lastFolder, zkeyFile);
-  const newZkey = path.join(contributionRootFolder, config.folderName, zkeyFile);
+  const newZkey = path.join(contributionRootFolder, stagedFolder, zkeyFile);
 
   console.log(`Contributing to ${zkeyFile}...`);
   const contributionName = `Contribution #${config.contributionNumber} from ${config.githubUsername}`;
 
-  const uniqueEntropy = crypto.createHash("sha512").update(baseEntropy, "utf8").digest("hex");
-  const command = `echo ${uniqueEntropy} | snarkjs zkey contribute -v ${latestZkey} ${newZkey} --name="${contributionName}"`;
-
-  console.log(`Executing contribution command (not showing entropy for security)...`);
-  execSync(command, { stdio: "inherit" });
+  // The entropy is handed to snarkjs in memory, it never appears on a command line or in the process table.
+  // snarkjs only takes a string, which unlike the key can't be zeroed and is left to the garbage collector.
+  console.log(`Running the snarkjs contribution (not showing entropy for security)...`);
+  let reportedHash: Buffer;
+  try {
+    reportedHash = await contributeToZkeyFile(latestZkey, newZkey, contributionName, circuitKey.toString("hex"));
+  } catch (error) {
+    throw new Error(`snarkjs zkey contribute failed for ${zkeyFile}: ${error instanceof Error ? error.message : error}`);
+  }
 
   const vkeyName = zkeyFile.replace(".zkey", "_verification_key.json");
-  const vkey = path.join(contributionRootFolder, config.folderName, vkeyName);
-  execSync(`snarkjs zkey export verificationkey ${newZkey} ${vkey}`, { stdio: "inherit" });
+  await writeZkeyVerificationKey(newZkey, path.join(contributionRootFolder, stagedFolder, vkeyName));
 
-  const transcriptPath = path.join(contributionRootFolder, config.folderName, `${zkeyFile}_transcript.txt`);
-  fs.writeFileSync(transcriptPath, `Contribution to ${zkeyFile} by ${config.githubUsername}\nTimestamp: ${config.timestamp}\n`);
+  // The hash snarkjs reported must be the one of the last contribution in the new zkey
+  const contributions = readZkeyMpcParams(newZkey).contributions;
+  const added = contributions[contributions.length - 1];
+  if (!added || added.name !== contributionName || !added.contributionHash.equals(reportedHash)) {
+    throw new Error(`snarkjs did not add the contribution to ${zkeyFile}`);
+  }
+  const contributionHash = added.contributionHash.toString("hex");
+
+  const transcriptPath = path.join(contributionRootFolder, stagedFolder, `${zkeyFile}_transcript.txt`);
+  fs.writeFileSync(
+    transcriptPath,
+    `Contribution to ${zkeyFile} by ${config.githubUsername}\nTimestamp: ${config.timestamp}\nContribution hash: ${contributionHash}\n`
+  );
 
   console.log(`✅ Contribution to ${zkeyFile} complete!`);
 
-  const hash = crypto.createHash("sha256").update(fs.readFileSync(newZkey)).digest("hex");
+  const hash = computeFileHash(newZkey);
 
   return {
     filename: zkeyFile,
     hash,
+    contributionHash,
   };
 }
 
-function createMetadataFiles(config: ContributionConfig, contributions: ZkeyContribution[]): void {
+function createMetadataFiles(config: ContributionConfig, predecessorFolder: string, contributions: ZkeyContribution[], options: ContributeOptions): void {
+  const stagedFolder = getStagedFolder(config.folderName);
   fs.writeFileSync(
-    path.join(contributionRootFolder, config.folderName, "contribution.txt"),
+    path.join(contributionRootFolder, stagedFolder, "contribution.txt"),
     `Contribution by ${config.githubUsername}\nTimestamp: ${config.timestamp}\n\nEntropy was generated using a secure method and has been deleted.`
   );
 
   console.log("\nGenerating attestation file...");
-  const attestationPath = path.join(contributionRootFolder, config.folderName, "attestation.json");
-
-  const attestationData = {
+  const attestation: Attestation = {
+    ceremonyId: getCeremonyConfig().ceremonyId,
     contributor: config.githubUsername,
     contributionNumber: config.contributionNumber,
     timestamp: config.timestamp,
     files: contributions,
+    predecessor: getPredecessorReference(predecessorFolder),
   };
 
-  fs.writeFileSync(attestationPath, JSON.stringify(attestationData, null, 2));
+  if (options.signingKey) {
+    console.log(`Signing the attestation with ${options.signingKey}...`);
+  } else {
+    console.warn("⚠️ No signing key given (--key or CEREMONY_SIGNING_KEY), the attestation is not signed");
+  }
+  const attestationPath = writeAttestation(stagedFolder, options.signingKey ? signAttestation(attestation, options.signingKey, commandStdio) : attestation);
 
   console.log(`✅ Attestation generated at ${attestationPath}`);
 }
 
-function performContributions(config: ContributionConfig, lastFolder: string): ZkeyContribution[] {
-  const zkeyFiles = getZkeyFiles(lastFolder);
+// Contribute to every circuit that is not completed in the staging folder yet, recording each one as soon as it is done
+async function performContributions(config: ContributionConfig, lastFolder: string, staging: StagingState, options: ContributeOptions): Promise<ZkeyContribution[]> {
+  // The circuits come from the ceremony configuration, the layout of lastFolder was checked against it
+  const zkeyFiles = getCircuitNames().map((circuitName) => `${circuitName}.zkey`);
+  const reusable = getReusableCircuits(staging);
+  const remaining = zkeyFiles.filter((zkeyFile) => !reusable.some((file) => file.filename === zkeyFile));
 
-  if (zkeyFiles.length === 0) {
-    throw new Error(`No .zkey files found in ${lastFolder}`);
+  console.log(`Found ${zkeyFiles.length} zkey files to contribute to.`);
+  if (reusable.length > 0) {
+    console.log(`Keeping the completed contributions to ${reusable.map((file) => file.filename).join(", ")}, ${remaining.length} remaining.`);
   }
 
-  console.log(`Found ${zkeyFiles.length} zkey files to contribute to.`);
+  const pool = EntropyPool.collect(getEntropySources(options));
+  printEntropyReport(pool.reports);
+  try {
+    for (const zkeyFile of remaining) {
+      // Each circuit gets its own key, none can be computed from another
+      const circuitKey = pool.deriveKey(`${getCeremonyConfig().ceremonyId}/${config.folderName}/${zkeyFile}`);
+      try {
+        recordStagedCircuit(staging, await contributeToZkey(zkeyFile, lastFolder, config, circuitKey));
+      } finally {
+        circuitKey.fill(0);
+      }
+    }
+  } finally {
+    pool.destroy();
+  }
 
-  const systemEntropy = generateSystemEntropy();
-  const additionalEntropy = collectAdditionalEntropy();
-  const mainEntropy = generateSecureEntropy();
-  const baseEntropy = mainEntropy + additionalEntropy + systemEntropy;
-  console.log("Secure entropy generated (not displayed for security)");
+  // Completed circuits always have their contribution hash, getReusableCircuits drops any without one
+  return zkeyFiles.map((zkeyFile) => staging.completed.find((file) => file.filename === zkeyFile) as ZkeyContribution);
+}
 
-  return zkeyFiles.map((zkeyFile) => {
-    const fileSpecificEntropy = baseEntropy + zkeyFile;
-    return contributeToZkey(zkeyFile, lastFolder, config, fileSpecificEntropy);
-  });
+// Resume the interrupted contribution of this contributor on the same predecessor, if any and wanted.
+// Every other staging folder was abandoned and is removed.
+function takeStagedContribution(githubUsername: string, lastFolder: string, options: ContributeOptions): StagingState | null {
+  let resumed: StagingState | null = null;
+  for (const staged of listStagedContributions()) {
+    const resumable = !resumed && staged.contributor === githubUsername && staged.predecessorFolder === lastFolder;
+    if (
+      resumable &&
+      (options.resume ||
+        (!options.nonInteractive &&
+          readlineSync.keyInYN(`Resume the interrupted contribution ${staged.folderName} (${staged.completed.length} circuits completed)?`)))
+    ) {
+      resumed = staged;
+      continue;
+    }
+    console.log(`Removing abandoned staging folder ${staged.folderName}`);
+    removeStaging(staged.folderName);
+  }
+
+  if (options.resume && !resumed) {
+    console.warn(`⚠️ No interrupted contribution of ${githubUsername} on ${lastFolder} to resume, starting a new one`);
+  }
+  return resumed;
 }
 
-function runContributionCeremony(): ContributionResult {
-  const config = setupContribution();
+// Check the folder we are about to build on before any entropy is generated, a contribution on top of a broken
+// or tampered link would be wasted, however honest
+async function runPreflight(lastFolder: string, options: ContributeOptions): Promise<void> {
+  const { initialFolder } = getCeremonyConfig();
+  console.log(`\nPre-flight verification of ${lastFolder}...`);
+
+  const failures: { circuitName: string; errorMessage?: string }[] = verifyAttestedFolder(lastFolder).filter((result) => !result.success);
+  // The initial zkeys were already checked against their pinned hashes
+  if (options.fullPreflight && lastFolder !== initialFolder) {
+    const ptauFile = await ensurePtauFile();
+    const results = await verifyContributions([lastFolder], initialFolder, ptauFile, { cache: VerificationCache.load() });
+    failures.push(...results.filter((result) => !result.success));
+  }
 
-  // Get folders BEFORE the new one was created
-  const contributionFolders = getContributionFolders().filter(
-    folder => folder !== config.folderName
-  );
+  if (failures.length === 0) {
+    console.log(`✅ ${lastFolder} passed the pre-flight verification`);
+    return;
+  }
+
+  const details = failures.map((failure) => `  - ${failure.circuitName}: ${failure.errorMessage || "verification failed"}`).join("\n");
+  if (options.skipPreflight) {
+    console.warn(`⚠️ ${lastFolder} failed the pre-flight verification, contributing on top of it anyway (--skip-preflight):\n${details}`);
+    return;
+  }
+  throw new Error(`Refusing to contribute on top of ${lastFolder}, it failed the pre-flight verification:\n${details}\nUse --skip-preflight to contribute anyway.`);
+}
+
+// The slot is null when contributing locally without uploading
+async function runContributionCeremony(githubUsername: string, slot: ContributionSlot | null, options: ContributeOptions): Promise<ContributionResult> {
+  let config = await setupContribution(githubUsername, options.sourceFolder);
+
+  // The new folder only appears once the contribution is complete
+  const contributionFolders = getContributionFolders();
 
   if (contributionFolders.length < 1) {
     throw new Error("At least the initial folder is required.");
   }
 
-  const lastFolder = contributionFolders[contributionFolders.length - 1];
+  const lastFolder = options.sourceFolder || contributionFolders[contributionFolders.length - 1];
   console.log(`Using source contribution from folder: ${lastFolder}`);
 
-  const contributions = performContributions(config, lastFolder);
+  // Refuse to build on folders with missing or unexpected circuits
+  assertInitialSetup();
+  if (lastFolder !== getCeremonyConfig().initialFolder) {
+    assertFolderLayout(lastFolder);
+  }
+  await runPreflight(lastFolder, options);
+
+  let staging = takeStagedContribution(githubUsername, lastFolder, options);
+  if (staging) {
+    console.log(`Resuming ${staging.folderName}, started at ${staging.timestamp}`);
+    config = { ...config, timestamp: staging.timestamp };
+  } else {
+    staging = createStaging({
+      folderName: config.folderName,
+      contributionNumber: config.contributionNumber,
+      contributor: githubUsername,
+      timestamp: config.timestamp,
+      predecessorFolder: lastFolder,
+    });
+  }
+
+  // Let other contributors see which slot we are working on
+  if (slot) {
+    await slot.heartbeat({ slot: config.contributionNumber, predecessor: lastFolder });
+  }
+
+  let contributions: ZkeyContribution[];
+  try {
+    contributions = await performContributions(config, lastFolder, staging, options);
+  } catch (error) {
+    console.error(`\n❌ ${staging.completed.length} of ${getCircuitNames().length} circuits were completed, run again with --resume to only redo the others.`);
+    throw error;
+  }
 
-  createMetadataFiles(config, contributions);
+  createMetadataFiles(config, lastFolder, contributions, options);
+  promoteStaging(config.folderName);
+  assertFolderLayout(config.folderName);
 
-  return { config, contributions };
+  return { config, predecessorFolder: lastFolder, contributions };
 }
 
-function main(): void {
+// Run the checks the coordinator and npm run verify will run on the new folder, before anything leaves this machine.
+// Returns null when they can't be run: without storage access the ptau has to be present already.
+async function selfVerifyContribution(result: ContributionResult, useStorage: boolean): Promise<VerificationResult[] | null> {
+  if (!useStorage && !fs.existsSync(path.join(contributionRootFolder, getPtauConfig().fileName))) {
+    console.warn(`⚠️ ${getPtauConfig().fileName} is not available locally, skipping the self-verification`);
+    return null;
+  }
+
+  console.log(`\nVerifying ${result.config.folderName} before uploading it...`);
+  const ptauFile = await ensurePtauFile();
+  return verifyNewContribution(result.config.folderName, result.predecessorFolder, getCeremonyConfig().initialFolder, ptauFile);
+}
+
+function removeUnverifiedContribution(folderName: string): void {
+  console.log(`Removing ${folderName}, it can't be built on`);
+  fs.removeSync(path.join(contributionRootFolder, folderName));
+}
+
+function printContributionOutcome(success: boolean, outcome: string[]): void {
+  console.log(`\n=== CONTRIBUTION ${success ? "PASSED" : "FAILED"} ===`);
+  outcome.forEach((line) => console.log(line));
+}
+
+async function main(): Promise<void> {
+  let slot: ContributionSlot | null = null;
+  let options: ContributeOptions | null = null;
+  const nonInteractive = isNonInteractiveRun(process.argv.slice(2));
+  const summary: ContributionSummary = { success: false, verified: false, uploaded: false };
+  // One line per step, printed as the final verdict
+  const outcome: string[] = [];
+
+  // Give the slot back right away when the contributor aborts, instead of letting it expire
+  process.once("SIGINT", () => {
+    console.log("\nContribution aborted. Run again with --resume to keep the circuits that were completed.");
+    (slot ? slot.release() : Promise.resolve()).finally(() => process.exit(130));
+  });
+
+  if (nonInteractive) {
+    // Keep stdout for the JSON summary
+    console.log = console.error;
+    console.info = console.error;
+    commandStdio = ["inherit", process.stderr.fd, process.stderr.fd];
+  }
+
   try {
-    // Check for required environment variables
-    checkRequiredEnvVars();
+    options = parseContributeOptions(process.argv.slice(2));
+    const ceremony = getCeremonyConfig();
+    console.log(`Ceremony ${ceremony.ceremonyId}: ${ceremony.circuits.length} circuits`);
+    validateContributeOptions(options);
+    if (options.offline) {
+      takeRequestBundle(options);
+    }
 
-    // Ensure we have the initial setup with required files
-    ensureInitialSetup();
+    const coordinatorUrl = options.upload ? getCoordinatorUrl() : null;
+    // A local rehearsal on an existing source folder doesn't need the ceremony storage at all
+    const useStorage = !coordinatorUrl && (options.upload || !options.sourceFolder);
 
-    // Download the latest contribution from S3 and ensure it has required files
-    const latestFolder = downloadLatestContribution();
+    if (useStorage) {
+      // Check for required environment variables
+      checkRequiredEnvVars();
 
-    // These cross-checks are now handled directly in the functions above
-    // so we don't need to call them explicitly here
+      // Ensure we have the initial setup with required files
+      await ensureInitialSetup();
+    }
+
+    const githubUsername = options.githubUsername || readlineSync.question("Enter your GitHub username: ").trim();
+    checkContributorName(githubUsername);
+
+    let turn: CoordinatorTurn | null = null;
+    if (coordinatorUrl) {
+      // The coordinator hands out turns and transfer URLs, no storage credentials are needed
+      console.log(`\nJoining the queue of the ceremony coordinator at ${coordinatorUrl}...`);
+      turn = await joinCoordinatorQueue(coordinatorUrl, githubUsername);
+      slot = turn;
+      await downloadFromCoordinator(turn);
+    } else if (options.upload) {
+      // Reserve the next contribution slot so nobody else builds on the same predecessor
+      console.log("\nReserving the next contribution slot...");
+      slot = await acquireSlotLock(githubUsername);
+
+      // Download the latest contribution from storage and ensure it has required files.
+      // This happens after taking the slot, as someone may have uploaded while we were queued.
+      await downloadLatestContribution();
+    } else if (useStorage) {
+      // Nothing will be uploaded, so there is no need to reserve the slot
+      await downloadLatestContribution();
+    }
 
-    const result = runContributionCeremony();
+    const result = await runContributionCeremony(githubUsername, slot, options);
+    summary.result = result;
 
     console.log(`\nAll contributions complete! Your contributions are in the ${result.config.folderName} folder.`);
+    outcome.push(`✅ Contribution: ${result.config.folderName}, ${result.contributions.length} circuits`);
 
-    // Upload the new contribution to S3
-    console.log(`\nUploading your contribution to S3...`);
-    uploadToS3(result.config.folderName);
+    let verification: VerificationResult[] | null;
+    try {
+      verification = await selfVerifyContribution(result, useStorage);
+      if (verification) {
+        const failed = verification.filter((r) => !r.success);
+        failed.forEach((r) => console.error(`❌ ${r.circuitName} [${r.check}]: ${r.errorMessage || "Verification failed"}`));
+        summary.verified = failed.length === 0;
+        if (!summary.verified) {
+          outcome.push(`❌ Self-verification: ${failed.length} of ${verification.length} checks failed`);
+          throw new Error(`${result.config.folderName} failed its own verification and was not uploaded, see the failed checks above`);
+        }
+      }
+    } catch (error) {
+      // The folder was already promoted, left in place it would be taken for the latest contribution
+      removeUnverifiedContribution(result.config.folderName);
+      throw error;
+    }
+    if (!verification) {
+      outcome.push(`⚠️ Self-verification: skipped, the ptau is not available locally`);
+    } else {
+      outcome.push(`✅ Self-verification: ${verification.length} checks passed`);
+    }
 
-    // Cross-check the uploaded contribution with S3
-    console.log(`\nVerifying uploaded contribution...`);
-    crossCheckFilesWithS3(result.config.folderName);
+    if (options.offline) {
+      summary.responseBundle = writeResponseBundle(result, options.bundle!);
+      console.log(`\nTake ${summary.responseBundle} to an online machine and run npm run submit-bundle -- --bundle ${summary.responseBundle}`);
+      outcome.push(`✅ Response bundle: ${summary.responseBundle}`);
+    } else if (!options.upload) {
+      console.log("\nSkipping the upload (--no-upload).");
+      outcome.push("⚠️ Upload: skipped (--no-upload)");
+    } else if (turn) {
+      // Refuse to upload if our predecessor is no longer the latest contribution
+      await turn.assertPredecessorIsLatest(result.predecessorFolder);
+
+      console.log(`\nSubmitting your contribution to the coordinator...`);
+      const submission = await turn.submit(result.config.folderName);
+      submission.results
+        .filter((r) => !r.success)
+        .forEach((r) => console.error(`❌ ${r.circuitName} [${r.check}]: ${r.errorMessage || "Verification failed"}`));
+      if (!submission.accepted) {
+        outcome.push(`❌ Upload: rejected by the coordinator`);
+        throw new Error(`The coordinator rejected ${submission.folderName}, see the failed verifications above`);
+      }
+      summary.uploaded = true;
+      console.log(`✅ ${submission.folderName} was verified and accepted by the coordinator`);
+      outcome.push(`✅ Upload: verified and accepted by the coordinator`);
+    } else if (slot) {
+      // Refuse to upload if our predecessor is no longer the latest contribution
+      await slot.assertPredecessorIsLatest(result.predecessorFolder);
+
+      // Upload the new contribution to the ceremony storage
+      console.log(`\nUploading your contribution to storage...`);
+      let uploadChecks: UploadedFileCheck[];
+      try {
+        if (!(await uploadToStorage(result.config.folderName))) {
+          outcome.push("❌ Upload: failed");
+          throw new Error(`Could not upload ${result.config.folderName} to storage`);
+        }
+
+        // Make sure storage holds exactly what we verified
+        console.log(`\nComparing the uploaded files with storage...`);
+        uploadChecks = await verifyUploadedFolder(result.config.folderName);
+        const failedUploads = uploadChecks.filter((check) => !check.success);
+        if (failedUploads.length > 0) {
+          outcome.push(`❌ Upload: ${failedUploads.length} of ${uploadChecks.length} files differ in storage`);
+          throw new Error(`The upload of ${result.config.folderName} is incomplete or corrupted, see the files above`);
+        }
+      } catch (error) {
+        // Still holding the slot, nobody can have built on the broken upload
+        await removeFailedUpload(result.config.folderName);
+        throw error;
+      }
+      summary.uploaded = true;
+      outcome.push(`✅ Upload: ${uploadChecks.length} files identical in storage`);
+    }
 
+    summary.success = true;
+    printContributionReceipt(result.config.folderName, readAttestation(result.config.folderName)!);
     console.log("\nPlease commit and push this folder to the repository.");
     console.log("\n⚠️ IMPORTANT: For security, entropy values were NOT saved anywhere and should now be gone from memory.");
   } catch (error) {
     console.error("Error during contribution process:", error);
-    process.exit(1);
+    summary.error = error instanceof Error ? error.message : String(error);
+    process.exitCode = 1;
+  } finally {
+    if (slot) {
+      await slot.release().catch((error) => console.warn(`⚠️ Could not release the contribution slot: ${error}`));
+    }
+    await releaseSnarkjs();
+  }
+
+  if (outcome.length > 0) {
+    printContributionOutcome(summary.success, outcome);
+  }
+  if (nonInteractive) {
+    process.stdout.write(JSON.stringify(summary, null, 2) + "\n");
   }
 }
 
@@ -0,0 +1,632 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  contributionRootFolder,
+  downloadFromStorage,
+  downloadLatestContribution,
+  ensureInitialSetup,
+  ensurePtauFile,
+  checkRequiredEnvVars,
+  isFinalFolder,
+} from "./utils";
+import { CeremonyStorage, getCeremonyStorage, joinStorageKey } from "./storage";
+import { coordinationFolder } from "./lock";
+import { verifyNewContribution } from "./verification";
+import { getCeremonyConfig, getNextContributionNumber, isContributionFolder } from "./config";
+import type {
+  CeremonyState,
+  DownloadRequest,
+  DownloadResponse,
+  FileTransfer,
+  JoinRequest,
+  JoinResponse,
+  ParticipantState,
+  SubmissionStatus,
+  TurnStatus,
+  UploadRequest,
+  UploadResponse,
+} from "./coordinatorApi";
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_TURN_TIMEOUT_MINUTES = 30;
+// Waiting participants poll every few seconds, drop them when they stop
+const WAITING_TIMEOUT_MS = 2 * 60 * 1000;
+// The active participant's client polls every minute, a turn without polls for this long is handed on
+const TURN_HEARTBEAT_TIMEOUT_MS = 5 * 60 * 1000;
+const TRANSFER_URL_TTL_SECONDS = 60 * 60;
+// Largest file accepted through a local transfer URL, zkeys of large circuits take a few GB
+const DEFAULT_MAX_UPLOAD_MB = 4096;
+const STATE_KEY = joinStorageKey(coordinationFolder, "coordinator.json");
+const STAGING_FOLDER = joinStorageKey(coordinationFolder, "staging");
+
+// GitHub usernames: alphanumerics and single hyphens, at most 39 characters
+const CONTRIBUTOR_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/;
+const FILE_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+interface Participant {
+  id: string;
+  tokenHash: string;
+  contributor: string;
+  state: ParticipantState;
+  joinedAt: string;
+  lastSeenAt: string;
+  turnStartedAt?: string;
+  folderName?: string;
+  predecessor?: string;
+  submission?: SubmissionStatus;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function getTurnTimeoutMs(): number {
+  return (parseFloat(process.env.COORDINATOR_TURN_TIMEOUT_MINUTES || "") || DEFAULT_TURN_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+function getMaxUploadBytes(): number {
+  return (parseFloat(process.env.COORDINATOR_MAX_UPLOAD_MB || "") || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+}
+
+// Queue, turn-taking and submission handling. Only the participant whose turn it is may upload,
+// and a submission only becomes the new head of the chain after it passed verification.
+class CeremonyCoordinator {
+  private participants: Participant[] = [];
+
+  constructor(
+    private readonly storage: CeremonyStorage,
+    private readonly ptauFile: string,
+    private readonly publicUrl: string,
+    private readonly secret: Buffer,
+    private head: string = getCeremonyConfig().initialFolder
+  ) {}
+
+  // Restore the queue and the head of the chain from storage, returns the head. Submissions that were being verified
+  // when the coordinator stopped are finished if they were already promoted and rolled back otherwise.
+  async restore(): Promise<string> {
+    const stored = await this.storage.readObject(STATE_KEY);
+    if (stored) {
+      const snapshot = JSON.parse(stored.content) as { participants: Participant[] };
+      this.participants = snapshot.participants.filter((p) => this.isPending(p));
+      for (const participant of this.participants.filter((p) => p.state === "verifying")) {
+        await this.recoverSubmission(participant);
+      }
+      console.log(`Restored ${this.participants.filter((p) => this.isPending(p)).length} queued participants`);
+    }
+
+    const remoteFolders = (await this.storage.listFolders()).filter(isContributionFolder);
+    this.head = remoteFolders[remoteFolders.length - 1] || getCeremonyConfig().initialFolder;
+    await this.persist();
+    return this.head;
+  }
+
+  join(contributor: string): JoinResponse {
+    if (!CONTRIBUTOR_PATTERN.test(contributor || "")) {
+      throw new HttpError(400, "contributor must be a valid GitHub username");
+    }
+    if (contributor === "final") {
+      throw new HttpError(400, "The name 'final' is reserved for the beacon finalization");
+    }
+    if (isFinalFolder(this.head)) {
+      throw new HttpError(409, `The ceremony was finalized in ${this.head}, no more contributions are accepted`);
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const now = new Date().toISOString();
+    const participant: Participant = {
+      id: crypto.randomBytes(8).toString("hex"),
+      tokenHash: hashToken(token),
+      contributor,
+      state: "waiting",
+      joinedAt: now,
+      lastSeenAt: now,
+    };
+    this.participants.push(participant);
+    console.log(`${contributor} joined the queue`);
+
+    this.tick();
+    return { id: participant.id, token, position: this.positionOf(participant) };
+  }
+
+  authenticate(id: string, authorization: string | undefined): Participant {
+    const participant = this.participants.find((p) => p.id === id);
+    const token = (authorization || "").replace(/^Bearer\s+/i, "");
+    if (!participant || !token) {
+      throw new HttpError(401, "Unknown participant or missing token");
+    }
+
+    const expected = Buffer.from(participant.tokenHash, "hex");
+    const actual = Buffer.from(hashToken(token), "hex");
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      throw new HttpError(401, "Invalid token");
+    }
+
+    participant.lastSeenAt = new Date().toISOString();
+    return participant;
+  }
+
+  status(participant: Participant): TurnStatus {
+    this.tick();
+    const active = this.getActive();
+    return {
+      id: participant.id,
+      contributor: participant.contributor,
+      state: participant.state,
+      position: this.positionOf(participant),
+      queueLength: this.getWaiting().length,
+      head: this.head,
+      activeContributor: active?.contributor,
+      turnExpiresAt: active ? this.turnExpiresAt(active) : undefined,
+    };
+  }
+
+  leave(participant: Participant): void {
+    if (this.isPending(participant) && participant.state !== "verifying") {
+      participant.state = "left";
+      console.log(`${participant.contributor} left the queue`);
+      this.tick();
+    }
+  }
+
+  async getState(): Promise<CeremonyState> {
+    this.tick();
+    const active = this.getActive();
+    return {
+      head: this.head,
+      contributions: (await this.storage.listFolders()).filter(isContributionFolder),
+      active: active ? { contributor: active.contributor, state: active.state, turnExpiresAt: this.turnExpiresAt(active) } : null,
+      queue: this.getWaiting().map((p, index) => ({ contributor: p.contributor, position: index + 1, joinedAt: p.joinedAt })),
+    };
+  }
+
+  async createDownloadUrls(participant: Participant, request: DownloadRequest): Promise<DownloadResponse> {
+    this.requireState(participant, "active");
+    const folder = request.folder;
+    if (!isContributionFolder(folder) || !(await this.storage.listFolders()).includes(folder)) {
+      throw new HttpError(404, `Unknown contribution folder ${folder}`);
+    }
+
+    const files: FileTransfer[] = [];
+    for (const name of await this.storage.listFiles(folder)) {
+      files.push({ name, url: await this.createTransferUrl("get", joinStorageKey(folder, name)) });
+    }
+    return { folder, files };
+  }
+
+  async createUploadUrls(participant: Participant, request: UploadRequest): Promise<UploadResponse> {
+    this.requireState(participant, "active");
+
+    const expectedFolder = `${this.nextContributionNumber()}_${participant.contributor}`;
+    if (request.folderName !== expectedFolder) {
+      throw new HttpError(409, `Expected contribution folder ${expectedFolder}, the head of the chain is ${this.head}`);
+    }
+    if (!Array.isArray(request.files) || request.files.length === 0 || !request.files.every((name) => FILE_NAME_PATTERN.test(name))) {
+      throw new HttpError(400, "files must be a non-empty list of plain file names");
+    }
+
+    participant.folderName = expectedFolder;
+    participant.predecessor = this.head;
+    await this.persist();
+
+    const files: FileTransfer[] = [];
+    for (const name of request.files) {
+      files.push({ name, url: await this.createTransferUrl("put", joinStorageKey(STAGING_FOLDER, participant.id, name)) });
+    }
+    return { folderName: expectedFolder, predecessor: this.head, files };
+  }
+
+  // Check the staged upload can be verified and start verifying it. The verification takes minutes, longer than
+  // clients wait for a response, its outcome is polled with submissionStatus().
+  async submit(participant: Participant): Promise<SubmissionStatus> {
+    this.requireState(participant, "active");
+    const { folderName, predecessor } = participant;
+    if (!folderName || !predecessor) {
+      throw new HttpError(409, "Request upload URLs before submitting");
+    }
+    if (predecessor !== this.head) {
+      throw new HttpError(409, `The head of the chain moved from ${predecessor} to ${this.head}`);
+    }
+
+    // Taken before the first await, a second submit while this one reads the staged files gets a 409
+    participant.state = "verifying";
+    let stagedFiles: string[];
+    try {
+      stagedFiles = await this.storage.listFiles(joinStorageKey(STAGING_FOLDER, participant.id));
+      if (stagedFiles.length === 0) {
+        throw new HttpError(400, "No uploaded files found");
+      }
+    } catch (error) {
+      participant.state = "active";
+      throw error;
+    }
+
+    participant.submission = { folderName, state: "verifying" };
+    await this.persist();
+
+    this.verifySubmission(participant, folderName, predecessor, stagedFiles).catch((error) =>
+      console.error(`Error verifying ${folderName}:`, error)
+    );
+    return participant.submission;
+  }
+
+  submissionStatus(participant: Participant): SubmissionStatus {
+    if (!participant.submission) {
+      throw new HttpError(404, "Nothing was submitted yet");
+    }
+    return participant.submission;
+  }
+
+  // Fetch the staged upload, verify it and promote it to the new head of the chain if it is valid
+  private async verifySubmission(participant: Participant, folderName: string, predecessor: string, stagedFiles: string[]): Promise<void> {
+    console.log(`\nVerifying submission ${folderName} from ${participant.contributor}...`);
+    const stagingFolder = joinStorageKey(STAGING_FOLDER, participant.id);
+    const localFolder = path.join(contributionRootFolder, folderName);
+    let accepted = false;
+    try {
+      fs.removeSync(localFolder);
+      for (const name of stagedFiles) {
+        await this.storage.getFile(joinStorageKey(stagingFolder, name), path.join(localFolder, name));
+      }
+      if (!fs.existsSync(path.join(contributionRootFolder, predecessor))) {
+        await downloadFromStorage(predecessor);
+      }
+
+      const results = await verifyNewContribution(folderName, predecessor, getCeremonyConfig().initialFolder, this.ptauFile);
+      accepted = results.length > 0 && results.every((result) => result.success);
+
+      if (accepted) {
+        // Nobody else may have written a contribution folder to the storage in the meantime
+        const remoteFolders = (await this.storage.listFolders()).filter(isContributionFolder);
+        if (remoteFolders[remoteFolders.length - 1] !== predecessor) {
+          throw new Error(`Storage head is ${remoteFolders[remoteFolders.length - 1]}, expected ${predecessor}`);
+        }
+
+        await this.promote(folderName, localFolder, stagedFiles);
+        this.head = folderName;
+        console.log(`✅ ${folderName} accepted as the new head of the chain`);
+      } else {
+        console.log(`❌ ${folderName} rejected`);
+      }
+
+      participant.state = accepted ? "accepted" : "rejected";
+      participant.submission = { folderName, state: "done", outcome: { folderName, accepted, results } };
+    } catch (error) {
+      // Let the participant retry the submission while their turn lasts
+      accepted = false;
+      participant.state = "active";
+      participant.submission = { folderName, state: "failed", error: error instanceof Error ? error.message : `${error}` };
+      throw error;
+    } finally {
+      if (!accepted) {
+        fs.removeSync(localFolder);
+      }
+      if (participant.state !== "active") {
+        for (const name of stagedFiles) {
+          await this.storage.deleteObject(joinStorageKey(stagingFolder, name)).catch(() => false);
+        }
+      }
+      this.tick();
+      await this.persist();
+    }
+  }
+
+  // Copy the verified folder to the storage. A folder copied halfway would be taken for the head of the chain and
+  // refuse every retry, it is removed again.
+  private async promote(folderName: string, localFolder: string, files: string[]): Promise<void> {
+    try {
+      for (const name of files) {
+        await this.storage.putFile(path.join(localFolder, name), joinStorageKey(folderName, name));
+      }
+    } catch (error) {
+      await this.storage
+        .deleteFolder(folderName)
+        .catch((deleteError) => console.error(`❌ Could not remove the partial upload of ${folderName} from storage: ${deleteError}`));
+      throw error;
+    }
+  }
+
+  // A submission promoted to storage before the coordinator stopped is accepted, a partly promoted one is removed
+  // and the participant may submit again
+  private async recoverSubmission(participant: Participant): Promise<void> {
+    const folderName = participant.folderName || "";
+    const stagingFolder = joinStorageKey(STAGING_FOLDER, participant.id);
+    const stagedFiles = await this.storage.listFiles(stagingFolder);
+    const promotedFiles = folderName ? await this.storage.listFiles(folderName) : [];
+
+    if (promotedFiles.length > 0 && stagedFiles.every((name) => promotedFiles.includes(name))) {
+      participant.state = "accepted";
+      // The verification results were lost with the process, only the outcome is known
+      participant.submission = { folderName, state: "done", outcome: { folderName, accepted: true, results: [] } };
+      for (const name of stagedFiles) {
+        await this.storage.deleteObject(joinStorageKey(stagingFolder, name)).catch(() => false);
+      }
+      console.log(`${folderName} of ${participant.contributor} was promoted before the restart, accepted`);
+      return;
+    }
+
+    if (promotedFiles.length > 0) {
+      await this.storage.deleteFolder(folderName);
+      console.log(`Removed the partial upload of ${folderName} of ${participant.contributor}`);
+    }
+    if (folderName) {
+      fs.removeSync(path.join(contributionRootFolder, folderName));
+    }
+    participant.state = "active";
+    participant.submission = { folderName, state: "failed", error: "The coordinator restarted during the verification, submit again" };
+  }
+
+  // Expire participants who stopped polling or ran out of time, and hand the turn to the next in line.
+  // Every authenticated request counts as a poll, see authenticate().
+  tick(): void {
+    const now = Date.now();
+    for (const participant of this.participants) {
+      const silentMs = now - new Date(participant.lastSeenAt).getTime();
+      if (participant.state === "waiting" && silentMs > WAITING_TIMEOUT_MS) {
+        participant.state = "expired";
+        console.log(`${participant.contributor} stopped polling and was removed from the queue`);
+      }
+      if (participant.state === "active" && silentMs > TURN_HEARTBEAT_TIMEOUT_MS) {
+        participant.state = "expired";
+        console.log(`${participant.contributor} stopped polling during their turn, the turn is handed on`);
+      }
+      if (participant.state === "active" && now > new Date(this.turnExpiresAt(participant)).getTime()) {
+        participant.state = "expired";
+        console.log(`Turn of ${participant.contributor} expired`);
+      }
+    }
+
+    if (!this.getActive()) {
+      const next = this.getWaiting()[0];
+      if (next) {
+        next.state = "active";
+        next.turnStartedAt = new Date().toISOString();
+        console.log(`It is now the turn of ${next.contributor}`);
+      }
+    }
+
+    // Keep finished participants around for a while so they can still read their final state
+    this.participants = this.participants.filter((p) => this.isPending(p) || now - new Date(p.lastSeenAt).getTime() < WAITING_TIMEOUT_MS * 5);
+  }
+
+  async persist(): Promise<void> {
+    const snapshot = { head: this.head, updatedAt: new Date().toISOString(), participants: this.participants };
+    await this.storage
+      .writeObject(STATE_KEY, JSON.stringify(snapshot, null, 2))
+      .catch((error) => console.warn(`⚠️ Could not persist coordinator state: ${error}`));
+  }
+
+  // Serve a signed local transfer URL, used when the storage backend can't presign URLs itself
+  async handleLocalTransfer(key: string, url: URL, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const operation = req.method === "PUT" ? "put" : "get";
+    const expires = url.searchParams.get("expires") || "";
+    const signature = url.searchParams.get("signature") || "";
+    const expected = this.sign(operation, key, expires);
+
+    if (Number(expires) < Date.now() / 1000 || signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new HttpError(403, "Invalid or expired transfer URL");
+    }
+
+    // The content-length is checked up front, the streamed bytes as they come for chunked uploads or a lying header
+    const maxBytes = getMaxUploadBytes();
+    if (operation === "put" && Number(req.headers["content-length"] || 0) > maxBytes) {
+      res.setHeader("Connection", "close");
+      throw new HttpError(413, `Files larger than ${maxBytes} bytes are not accepted`);
+    }
+
+    const tempPath = path.join(os.tmpdir(), `coordinator-${crypto.randomBytes(8).toString("hex")}`);
+    try {
+      if (operation === "put") {
+        await new Promise<void>((resolve, reject) => {
+          const out = fs.createWriteStream(tempPath);
+          let size = 0;
+          req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+              req.unpipe(out);
+              out.destroy();
+              // Don't read the rest of the body, the connection is closed once the error is sent
+              res.setHeader("Connection", "close");
+              reject(new HttpError(413, `Files larger than ${maxBytes} bytes are not accepted`));
+            }
+          });
+          req.pipe(out);
+          out.on("finish", () => resolve());
+          out.on("error", reject);
+          req.on("error", reject);
+        });
+        await this.storage.putFile(tempPath, key);
+        res.writeHead(200).end();
+      } else {
+        await this.storage.getFile(key, tempPath);
+        res.writeHead(200, { "Content-Type": "application/octet-stream", "Content-Length": fs.statSync(tempPath).size });
+        await new Promise<void>((resolve, reject) => {
+          fs.createReadStream(tempPath).on("error", reject).pipe(res).on("finish", () => resolve());
+        });
+      }
+    } finally {
+      fs.removeSync(tempPath);
+    }
+  }
+
+  private async createTransferUrl(operation: "get" | "put", key: string): Promise<string> {
+    if (this.storage.createTransferUrl) {
+      return this.storage.createTransferUrl(operation, key, TRANSFER_URL_TTL_SECONDS);
+    }
+    const expires = Math.floor(Date.now() / 1000) + TRANSFER_URL_TTL_SECONDS;
+    const signature = this.sign(operation, key, String(expires));
+    return `${this.publicUrl}/files/${key.split("/").map(encodeURIComponent).join("/")}?expires=${expires}&signature=${signature}`;
+  }
+
+  private sign(operation: string, key: string, expires: string): string {
+    return crypto.createHmac("sha256", this.secret).update(`${operation}\n${key}\n${expires}`).digest("hex");
+  }
+
+  private nextContributionNumber(): string {
+    return getNextContributionNumber(this.head);
+  }
+
+  private requireState(participant: Participant, state: ParticipantState): void {
+    this.tick();
+    if (participant.state !== state) {
+      throw new HttpError(409, `Participant is ${participant.state}, expected ${state}`);
+    }
+  }
+
+  // Latest end of a turn, it ends earlier when the participant stops polling
+  private turnExpiresAt(participant: Participant): string {
+    return new Date(new Date(participant.turnStartedAt || participant.lastSeenAt).getTime() + getTurnTimeoutMs()).toISOString();
+  }
+
+  private positionOf(participant: Participant): number {
+    return this.getWaiting().indexOf(participant) + 1;
+  }
+
+  private getActive(): Participant | undefined {
+    return this.participants.find((p) => p.state === "active" || p.state === "verifying");
+  }
+
+  private getWaiting(): Participant[] {
+    return this.participants.filter((p) => p.state === "waiting");
+  }
+
+  private isPending(participant: Participant): boolean {
+    return participant.state === "waiting" || participant.state === "active" || participant.state === "verifying";
+  }
+}
+
+async function readJsonBody<T>(req: http.IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > 64 * 1024) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch (error) {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+  // Handlers read fields of the body, null, arrays and scalars would make them throw
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "The JSON body must be an object");
+  }
+  return body as T;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function createRequestHandler(coordinator: CeremonyCoordinator): http.RequestListener {
+  return async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = req.method || "GET";
+
+    try {
+      if (method === "GET" && url.pathname === "/state") {
+        return sendJson(res, 200, await coordinator.getState());
+      }
+      if (method === "POST" && url.pathname === "/queue") {
+        const body = await readJsonBody<JoinRequest>(req);
+        const response = coordinator.join(body.contributor);
+        await coordinator.persist();
+        return sendJson(res, 201, response);
+      }
+      if (url.pathname.startsWith("/files/") && (method === "GET" || method === "PUT")) {
+        const key = url.pathname.substring("/files/".length).split("/").map(decodeURIComponent).join("/");
+        return await coordinator.handleLocalTransfer(key, url, req, res);
+      }
+
+      const match = url.pathname.match(/^\/queue\/([0-9a-f]+)(?:\/(download|upload|submit))?$/);
+      if (!match) {
+        throw new HttpError(404, "Not found");
+      }
+
+      const participant = coordinator.authenticate(match[1], req.headers.authorization);
+      const action = match[2];
+
+      if (!action && method === "GET") {
+        return sendJson(res, 200, coordinator.status(participant));
+      }
+      if (!action && method === "DELETE") {
+        coordinator.leave(participant);
+        await coordinator.persist();
+        return sendJson(res, 200, coordinator.status(participant));
+      }
+      if (action === "download" && method === "POST") {
+        return sendJson(res, 200, await coordinator.createDownloadUrls(participant, await readJsonBody<DownloadRequest>(req)));
+      }
+      if (action === "upload" && method === "POST") {
+        return sendJson(res, 200, await coordinator.createUploadUrls(participant, await readJsonBody<UploadRequest>(req)));
+      }
+      if (action === "submit" && method === "POST") {
+        return sendJson(res, 202, await coordinator.submit(participant));
+      }
+      if (action === "submit" && method === "GET") {
+        return sendJson(res, 200, coordinator.submissionStatus(participant));
+      }
+
+      throw new HttpError(405, "Method not allowed");
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return sendJson(res, error.status, { error: error.message });
+      }
+      console.error(`Error handling ${method} ${url.pathname}:`, error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : "Internal error" });
+      }
+    }
+  };
+}
+
+async function main(): Promise<void> {
+  try {
+    // Check for required environment variables
+    checkRequiredEnvVars();
+
+    fs.ensureDirSync(contributionRootFolder);
+    const ptauFile = await ensurePtauFile();
+    await ensureInitialSetup();
+
+    const port = parseInt(process.env.COORDINATOR_PORT || "", 10) || DEFAULT_PORT;
+    const publicUrl = (process.env.COORDINATOR_PUBLIC_URL || `http://localhost:${port}`).replace(/\/+$/, "");
+    // A fixed secret keeps local transfer URLs valid across restarts
+    const secret = process.env.COORDINATOR_SECRET ? Buffer.from(process.env.COORDINATOR_SECRET) : crypto.randomBytes(32);
+
+    const coordinator = new CeremonyCoordinator(getCeremonyStorage(), ptauFile, publicUrl, secret);
+    // Before downloading, a contribution that was only partly promoted when the coordinator stopped is removed
+    const head = await coordinator.restore();
+    await downloadLatestContribution();
+
+    setInterval(() => coordinator.tick(), 15 * 1000).unref();
+
+    http.createServer(createRequestHandler(coordinator)).listen(port, () => {
+      console.log(`\nCeremony coordinator listening on port ${port} (public URL ${publicUrl})`);
+      console.log(`Current head of the chain: ${head}`);
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error(`Unknown error occurred: ${error}`);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,76 @@
+import type { VerificationResult } from "./verification";
+
+// Request and response bodies of the coordinator HTTP API, shared by the server and the contribute client
+
+export type ParticipantState = "waiting" | "active" | "verifying" | "accepted" | "rejected" | "expired" | "left";
+
+export interface JoinRequest {
+  contributor: string;
+}
+
+export interface JoinResponse {
+  id: string;
+  // Bearer token authenticating every following request of this participant
+  token: string;
+  position: number;
+}
+
+export interface TurnStatus {
+  id: string;
+  contributor: string;
+  state: ParticipantState;
+  // 1-based position among waiting participants, 0 once it is your turn
+  position: number;
+  queueLength: number;
+  head: string;
+  activeContributor?: string;
+  turnExpiresAt?: string;
+}
+
+export interface FileTransfer {
+  name: string;
+  url: string;
+}
+
+export interface DownloadRequest {
+  folder: string;
+}
+
+export interface DownloadResponse {
+  folder: string;
+  files: FileTransfer[];
+}
+
+export interface UploadRequest {
+  folderName: string;
+  files: string[];
+}
+
+export interface UploadResponse {
+  folderName: string;
+  predecessor: string;
+  files: FileTransfer[];
+}
+
+export interface SubmitResponse {
+  folderName: string;
+  accepted: boolean;
+  results: VerificationResult[];
+}
+
+// Returned by POST /queue/:id/submit, which doesn't wait for the verification, and polled with GET /queue/:id/submit
+export interface SubmissionStatus {
+  folderName: string;
+  state: "verifying" | "done" | "failed";
+  // Set once the verification is done
+  outcome?: SubmitResponse;
+  // Why the submission could not be verified, it can be submitted again while the turn lasts
+  error?: string;
+}
+
+export interface CeremonyState {
+  head: string;
+  contributions: string[];
+  active: { contributor: string; state: ParticipantState; turnExpiresAt?: string } | null;
+  queue: { contributor: string; position: number; joinedAt: string }[];
+}
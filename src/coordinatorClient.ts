@@ -0,0 +1,198 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { contributionRootFolder, getZkeyFiles } from "./utils";
+import { getCeremonyConfig } from "./config";
+import { ContributionSlot, SlotLock, SlotLockError } from "./lock";
+import type {
+  CeremonyState,
+  DownloadResponse,
+  JoinResponse,
+  SubmissionStatus,
+  SubmitResponse,
+  TurnStatus,
+  UploadResponse,
+} from "./coordinatorApi";
+
+const DEFAULT_POLL_SECONDS = 10;
+// The coordinator hands the turn on when these polls stop for a few minutes. They don't extend the turn beyond
+// COORDINATOR_TURN_TIMEOUT_MINUTES.
+const TURN_HEARTBEAT_MS = 60 * 1000;
+
+export function getCoordinatorUrl(): string | null {
+  const url = process.env.CEREMONY_COORDINATOR_URL;
+  return url ? url.replace(/\/+$/, "") : null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getPollIntervalMs(): number {
+  return (parseFloat(process.env.CEREMONY_LOCK_POLL_SECONDS || "") || DEFAULT_POLL_SECONDS) * 1000;
+}
+
+async function requestJson<T>(url: string, method: string, token?: string, body?: unknown): Promise<{ status: number; data: T }> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Coordinator request ${method} ${url} failed with ${response.status}: ${(data as { error?: string }).error || response.statusText}`);
+  }
+  return { status: response.status, data: data as T };
+}
+
+export async function fetchCeremonyState(baseUrl: string): Promise<CeremonyState> {
+  return (await requestJson<CeremonyState>(`${baseUrl}/state`, "GET")).data;
+}
+
+// A turn granted by the coordinator service. Contributors only get short-lived transfer URLs,
+// no storage credentials, and the coordinator verifies the contribution before accepting it.
+export class CoordinatorTurn implements ContributionSlot {
+  private heartbeatTimer: NodeJS.Timeout;
+  private finished = false;
+
+  constructor(private readonly baseUrl: string, private readonly id: string, private readonly token: string) {
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) => console.warn(`⚠️ Coordinator heartbeat failed: ${error instanceof Error ? error.message : error}`));
+    }, TURN_HEARTBEAT_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  async status(): Promise<TurnStatus> {
+    return (await requestJson<TurnStatus>(`${this.baseUrl}/queue/${this.id}`, "GET", this.token)).data;
+  }
+
+  // The slot and predecessor are decided by the coordinator, polling is all that's needed to hold on to the turn
+  async heartbeat(_updates?: Partial<Pick<SlotLock, "slot" | "predecessor">>): Promise<void> {
+    const status = await this.status();
+    if (status.state !== "active" && status.state !== "verifying") {
+      throw new SlotLockError(`Your turn is no longer active (state: ${status.state})`);
+    }
+  }
+
+  async assertPredecessorIsLatest(predecessor: string): Promise<void> {
+    const status = await this.status();
+    if (status.state !== "active") {
+      throw new SlotLockError(`Your turn is no longer active (state: ${status.state})`);
+    }
+    if (status.head !== predecessor) {
+      throw new SlotLockError(`The head of the chain is ${status.head}, your contribution was built on ${predecessor}`);
+    }
+  }
+
+  // Download a contribution folder through the transfer URLs handed out by the coordinator
+  async downloadFolder(folder: string): Promise<void> {
+    const { data } = await requestJson<DownloadResponse>(`${this.baseUrl}/queue/${this.id}/download`, "POST", this.token, { folder });
+    console.log(`Downloading ${data.files.length} files of ${folder} from the coordinator...`);
+
+    for (const file of data.files) {
+      const localPath = path.join(contributionRootFolder, folder, file.name);
+      const response = await fetch(file.url);
+      if (!response.ok || !response.body) {
+        throw new Error(`Download of ${folder}/${file.name} failed with ${response.status}`);
+      }
+      fs.ensureDirSync(path.dirname(localPath));
+      await pipeline(Readable.fromWeb(response.body as import("stream/web").ReadableStream), fs.createWriteStream(localPath));
+    }
+  }
+
+  // Upload the contribution folder and wait for the coordinator to verify it
+  async submit(folderName: string): Promise<SubmitResponse> {
+    const localFolder = path.join(contributionRootFolder, folderName);
+    const files = fs.readdirSync(localFolder).filter((file) => fs.statSync(path.join(localFolder, file)).isFile());
+
+    const { data } = await requestJson<UploadResponse>(`${this.baseUrl}/queue/${this.id}/upload`, "POST", this.token, { folderName, files });
+    for (const file of data.files) {
+      console.log(`Uploading ${file.name}...`);
+      const localPath = path.join(localFolder, file.name);
+      const response = await fetch(file.url, {
+        method: "PUT",
+        headers: { "Content-Length": String(fs.statSync(localPath).size) },
+        body: Readable.toWeb(fs.createReadStream(localPath)) as unknown as BodyInit,
+        duplex: "half",
+      } as RequestInit);
+      if (!response.ok) {
+        throw new Error(`Upload of ${file.name} failed with ${response.status}: ${await response.text()}`);
+      }
+    }
+
+    // The coordinator verifies in the background, the outcome is polled
+    const submitUrl = `${this.baseUrl}/queue/${this.id}/submit`;
+    let { data: submission } = await requestJson<SubmissionStatus>(submitUrl, "POST", this.token);
+    console.log("Waiting for the coordinator to verify your contribution (this can take a while)...");
+    while (submission.state === "verifying") {
+      await sleep(getPollIntervalMs());
+      submission = (await requestJson<SubmissionStatus>(submitUrl, "GET", this.token)).data;
+    }
+    if (submission.state === "failed" || !submission.outcome) {
+      throw new Error(`The coordinator could not verify ${folderName}: ${submission.error || "unknown error"}`);
+    }
+    this.finished = true;
+    return submission.outcome;
+  }
+
+  async release(): Promise<void> {
+    clearInterval(this.heartbeatTimer);
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    await requestJson(`${this.baseUrl}/queue/${this.id}`, "DELETE", this.token);
+    console.log("Left the coordinator queue.");
+  }
+}
+
+// Make sure the initial setup and the current head of the chain are available locally
+export async function downloadFromCoordinator(turn: CoordinatorTurn): Promise<string> {
+  const { head } = await turn.status();
+  for (const folder of [...new Set([getCeremonyConfig().initialFolder, head])]) {
+    const localPath = path.join(contributionRootFolder, folder);
+    if (fs.existsSync(localPath) && getZkeyFiles(folder).length > 0) {
+      console.log(`Folder ${folder} already exists locally. Skipping download.`);
+      continue;
+    }
+    await turn.downloadFolder(folder);
+  }
+  return head;
+}
+
+// Join the coordinator queue and wait until it is our turn
+export async function joinCoordinatorQueue(baseUrl: string, contributor: string): Promise<CoordinatorTurn> {
+  const { data: joined } = await requestJson<JoinResponse>(`${baseUrl}/queue`, "POST", undefined, { contributor });
+  const turn = new CoordinatorTurn(baseUrl, joined.id, joined.token);
+  const pollInterval = getPollIntervalMs();
+  let lastStatus = "";
+
+  try {
+    for (;;) {
+      const status = await turn.status();
+      if (status.state === "active") {
+        console.log(`✅ It is your turn, ${contributor}! Current head of the chain: ${status.head}`);
+        return turn;
+      }
+      if (status.state !== "waiting") {
+        throw new SlotLockError(`Removed from the coordinator queue (state: ${status.state})`);
+      }
+
+      const holder = status.activeContributor ? `${status.activeContributor} is contributing (turn ends by ${status.turnExpiresAt})` : "Nobody is contributing";
+      const message = `${holder}. You are #${status.position} of ${status.queueLength} in the queue.`;
+      if (message !== lastStatus) {
+        console.log(`⏳ ${message} Waiting...`);
+        lastStatus = message;
+      }
+      await sleep(pollInterval);
+    }
+  } catch (error) {
+    await turn.release().catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,231 @@
+import * as path from "path";
+import { contributionRootFolder, getZkeyFiles, computeFileHash, isFinalFolder } from "./utils";
+import { readAttestation, Attestation } from "./attestation";
+import { readZkeyMpcParams, ZkeyMpcParams } from "./zkey";
+import { getCeremonyConfig, getCircuitNames, formatContributionNumber, getFolderNumber } from "./config";
+
+export interface CustodyCheckResult {
+  contributionFolder: string;
+  circuitName: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+// Lazily read and memoize the MPC params of every zkey, each folder is compared with both neighbours
+function createMpcParamsLoader(): (folder: string, zkeyFile: string) => ZkeyMpcParams {
+  const cache = new Map<string, ZkeyMpcParams>();
+  return (folder: string, zkeyFile: string) => {
+    const key = path.join(folder, zkeyFile);
+    let params = cache.get(key);
+    if (!params) {
+      params = readZkeyMpcParams(path.join(contributionRootFolder, folder, zkeyFile));
+      cache.set(key, params);
+    }
+    return params;
+  };
+}
+
+// Check that the contribution history of a zkey extends its predecessor's history by exactly one contribution
+function checkHistoryExtends(current: ZkeyMpcParams, previous: ZkeyMpcParams, previousFolder: string): string | null {
+  if (!current.csHash.equals(previous.csHash)) {
+    return `Circuit hash differs from ${previousFolder} (substituted circuit)`;
+  }
+
+  const sharedLength = Math.min(current.contributions.length, previous.contributions.length);
+  for (let i = 0; i < sharedLength; i++) {
+    if (!current.contributions[i].raw.equals(previous.contributions[i].raw)) {
+      return `Forked: contribution #${i + 1} differs from the one in ${previousFolder}`;
+    }
+  }
+
+  const added = current.contributions.length - previous.contributions.length;
+  if (added < 0) {
+    return `History has ${current.contributions.length} contributions, fewer than the ${previous.contributions.length} in ${previousFolder}`;
+  }
+  if (added === 0) {
+    return `No new contribution on top of ${previousFolder}`;
+  }
+  if (added > 1) {
+    return `Skipped link: ${added} contributions added on top of ${previousFolder}, expected exactly 1`;
+  }
+
+  return null;
+}
+
+// The final folder adds the beacon recorded in its attestation, every other folder a regular contribution
+function checkContributionType(current: ZkeyMpcParams, folder: string, attestation: Attestation | null): string | null {
+  const added = current.contributions[current.contributions.length - 1];
+
+  if (!isFinalFolder(folder)) {
+    return added.type === 0 ? null : `Unexpected beacon contribution in ${folder}, only the final folder may apply the beacon`;
+  }
+
+  if (added.type !== 1) {
+    return "The final contribution is not a beacon";
+  }
+  if (!attestation || !attestation.beacon) {
+    return "Attestation does not record the beacon parameters";
+  }
+
+  const beaconHash = added.beaconHash ? added.beaconHash.toString("hex") : "";
+  if (beaconHash !== attestation.beacon.hash.toLowerCase()) {
+    return `Beacon hash ${beaconHash} differs from the attested ${attestation.beacon.hash}`;
+  }
+  if (added.numIterationsExp !== attestation.beacon.numIterationsExp) {
+    return `Beacon iterations 2^${added.numIterationsExp} differ from the attested 2^${attestation.beacon.numIterationsExp}`;
+  }
+
+  return null;
+}
+
+function checkAttestationHash(attestation: Attestation | null, folder: string, zkeyFile: string): string | null {
+  if (!attestation) {
+    return "Missing attestation.json";
+  }
+
+  const entry = attestation.files.find((file) => file.filename === zkeyFile);
+  if (!entry) {
+    return `${zkeyFile} is not listed in attestation.json`;
+  }
+
+  const actualHash = computeFileHash(path.join(contributionRootFolder, folder, zkeyFile));
+  if (actualHash !== entry.hash) {
+    return `SHA-256 mismatch: attestation has ${entry.hash}, zkey on disk is ${actualHash}`;
+  }
+
+  return null;
+}
+
+function verifyFolderCustody(
+  folder: string,
+  previousFolder: string,
+  loadMpcParams: (folder: string, zkeyFile: string) => ZkeyMpcParams
+): CustodyCheckResult[] {
+  console.log(`\nChecking chain of custody for ${folder} (predecessor ${previousFolder})...`);
+
+  const folderErrors: string[] = [];
+  let attestation: Attestation | null = null;
+  try {
+    attestation = readAttestation(folder);
+  } catch (error) {
+    folderErrors.push(error instanceof Error ? error.message : `Unreadable attestation: ${error}`);
+  }
+
+  const folderNumber = formatContributionNumber(getFolderNumber(folder));
+  if (attestation && attestation.contributionNumber !== folderNumber) {
+    folderErrors.push(`Attestation contribution number ${attestation.contributionNumber} does not match folder number ${folderNumber}`);
+  }
+  const { ceremonyId } = getCeremonyConfig();
+  if (attestation && attestation.ceremonyId !== undefined && attestation.ceremonyId !== ceremonyId) {
+    folderErrors.push(`Attestation belongs to ceremony ${attestation.ceremonyId}, expected ${ceremonyId}`);
+  }
+  if (isFinalFolder(previousFolder)) {
+    folderErrors.push(`${previousFolder} closed the ceremony, no contribution may follow it`);
+  }
+
+  const currentZkeys = getZkeyFiles(folder);
+  const previousZkeys = getZkeyFiles(previousFolder);
+  const attestedZkeys = attestation ? attestation.files.map((file) => file.filename) : [];
+  const allZkeys = [...new Set([...currentZkeys, ...previousZkeys, ...attestedZkeys])].sort();
+
+  return allZkeys.map((zkeyFile) => {
+    const circuitName = path.basename(zkeyFile, ".zkey");
+    const errors = [...folderErrors];
+
+    try {
+      if (!currentZkeys.includes(zkeyFile)) {
+        errors.push(`${zkeyFile} is missing from the folder`);
+      } else if (!previousZkeys.includes(zkeyFile)) {
+        errors.push(`${zkeyFile} has no predecessor in ${previousFolder}`);
+      } else {
+        // An unreadable attestation is already reported at folder level
+        const hashError = attestation || folderErrors.length === 0 ? checkAttestationHash(attestation, folder, zkeyFile) : null;
+        if (hashError) {
+          errors.push(hashError);
+        }
+
+        const currentParams = loadMpcParams(folder, zkeyFile);
+        const historyError = checkHistoryExtends(currentParams, loadMpcParams(previousFolder, zkeyFile), previousFolder);
+        if (historyError) {
+          errors.push(historyError);
+        } else {
+          const typeError = checkContributionType(currentParams, folder, attestation);
+          if (typeError) {
+            errors.push(typeError);
+          }
+        }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : `${error}`);
+    }
+
+    if (errors.length === 0) {
+      console.log(`✅ ${folder}/${zkeyFile} extends ${previousFolder}`);
+      return { contributionFolder: folder, circuitName, success: true };
+    }
+
+    const errorMessage = errors.join("; ");
+    console.error(`❌ ${folder}/${zkeyFile}: ${errorMessage}`);
+    return { contributionFolder: folder, circuitName, success: false, errorMessage };
+  });
+}
+
+// Check a single folder without its predecessor, e.g. the folder a contributor is about to build on: every zkey must be
+// the one recorded in the attestation, contain one contribution per folder before it and end with the attested contribution
+export function verifyAttestedFolder(folder: string): CustodyCheckResult[] {
+  let attestation: Attestation | null = null;
+  let attestationError: string | null = null;
+  try {
+    attestation = readAttestation(folder);
+  } catch (error) {
+    attestationError = error instanceof Error ? error.message : `Unreadable attestation: ${error}`;
+  }
+  const { initialFolder } = getCeremonyConfig();
+
+  return getCircuitNames().map((circuitName) => {
+    const zkeyFile = `${circuitName}.zkey`;
+    const errors: string[] = [];
+
+    try {
+      const hashError = attestationError || checkAttestationHash(attestation, folder, zkeyFile);
+      if (hashError) {
+        errors.push(hashError);
+      }
+
+      const contributions = readZkeyMpcParams(path.join(contributionRootFolder, folder, zkeyFile)).contributions;
+      const expected = folder === initialFolder ? 0 : getFolderNumber(folder);
+      if (contributions.length !== expected) {
+        errors.push(`${zkeyFile} contains ${contributions.length} contributions, expected ${expected} in ${folder}`);
+      }
+
+      const attestedHash = attestation?.files.find((file) => file.filename === zkeyFile)?.contributionHash;
+      const last = contributions[contributions.length - 1];
+      if (attestedHash && (!last || last.contributionHash.toString("hex") !== attestedHash.toLowerCase())) {
+        errors.push(`The last contribution of ${zkeyFile} is not the one recorded in the attestation`);
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : `${error}`);
+    }
+
+    if (errors.length === 0) {
+      console.log(`✅ ${folder}/${zkeyFile} matches its attestation`);
+      return { contributionFolder: folder, circuitName, success: true };
+    }
+    const errorMessage = errors.join("; ");
+    console.error(`❌ ${folder}/${zkeyFile}: ${errorMessage}`);
+    return { contributionFolder: folder, circuitName, success: false, errorMessage };
+  });
+}
+
+// Walk the contribution folders in order and confirm that every folder extends exactly the previous one,
+// and that the zkeys on disk are the ones recorded in each attestation
+export function verifyChainOfCustody(contributionFolders: string[]): CustodyCheckResult[] {
+  const results: CustodyCheckResult[] = [];
+  const loadMpcParams = createMpcParamsLoader();
+
+  for (let i = 1; i < contributionFolders.length; i++) {
+    results.push(...verifyFolderCustody(contributionFolders[i], contributionFolders[i - 1], loadMpcParams));
+  }
+
+  return results;
+}
@@ -0,0 +1,186 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import { computeFileHash } from "./utils";
+import type { CeremonyStorage, StoredFileInfo, StoredObject } from "./storage";
+
+// How long to wait for another process holding an object mutex before giving up
+const MUTEX_TIMEOUT_MS = 10000;
+// A mutex older than this is considered left behind by a crashed process
+const STALE_MUTEX_MS = 60000;
+
+function contentVersion(content: string): string {
+  return crypto.createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Storage backed by a plain directory: a shared NFS mount, a USB stick for air-gapped rounds or a temp dir
+export class DirectoryCeremonyStorage implements CeremonyStorage {
+  readonly backend = "local" as const;
+  readonly location: string;
+
+  constructor(rootDir: string) {
+    this.location = path.resolve(rootDir);
+  }
+
+  async listFolders(): Promise<string[]> {
+    if (!fs.existsSync(this.location)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.location, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory())
+      .map((dirent) => dirent.name)
+      .sort();
+  }
+
+  async listFiles(folderName: string): Promise<string[]> {
+    const folderPath = this.resolveKey(folderName);
+    if (!fs.existsSync(folderPath)) {
+      return [];
+    }
+
+    const listRecursively = (dir: string): string[] =>
+      fs.readdirSync(dir, { withFileTypes: true }).flatMap((dirent) => {
+        const fullPath = path.join(dir, dirent.name);
+        return dirent.isDirectory() ? listRecursively(fullPath) : [path.relative(folderPath, fullPath).split(path.sep).join("/")];
+      });
+
+    return listRecursively(folderPath).sort();
+  }
+
+  async getFile(key: string, localPath: string): Promise<void> {
+    const sourcePath = this.resolveKey(key);
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`${key} does not exist in ${this.location}`);
+    }
+    fs.ensureDirSync(path.dirname(localPath));
+    fs.copyFileSync(sourcePath, localPath);
+  }
+
+  async putFile(localPath: string, key: string): Promise<void> {
+    const targetPath = this.resolveKey(key);
+    const tempPath = `${targetPath}.partial`;
+
+    // Copy to a temporary name first so readers never see a half-written file
+    fs.ensureDirSync(path.dirname(targetPath));
+    fs.copyFileSync(localPath, tempPath);
+    fs.renameSync(tempPath, targetPath);
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    const filePath = this.resolveKey(key);
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return null;
+    }
+    return {
+      key,
+      size: fs.statSync(filePath).size,
+      checksum: computeFileHash(filePath),
+    };
+  }
+
+  async readObject(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolveKey(key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const content = fs.readFileSync(filePath, "utf8");
+    return { content, version: contentVersion(content) };
+  }
+
+  async writeObject(key: string, content: string, expectedVersion?: string | null): Promise<string | null> {
+    const filePath = this.resolveKey(key);
+    return this.withMutex(filePath, () => {
+      if (!this.matchesVersion(filePath, expectedVersion)) {
+        return null;
+      }
+      fs.ensureDirSync(path.dirname(filePath));
+      fs.writeFileSync(`${filePath}.partial`, content);
+      fs.renameSync(`${filePath}.partial`, filePath);
+      return contentVersion(content);
+    });
+  }
+
+  async deleteObject(key: string, expectedVersion?: string): Promise<boolean> {
+    const filePath = this.resolveKey(key);
+    return this.withMutex(filePath, () => {
+      if (!this.matchesVersion(filePath, expectedVersion)) {
+        return false;
+      }
+      fs.removeSync(filePath);
+      return true;
+    });
+  }
+
+  async deleteFolder(folderName: string): Promise<void> {
+    const folderPath = this.resolveKey(folderName);
+    if (folderPath === this.location) {
+      throw new Error(`Refusing to delete the storage root ${this.location}`);
+    }
+    fs.removeSync(folderPath);
+  }
+
+  private matchesVersion(filePath: string, expectedVersion: string | null | undefined): boolean {
+    if (expectedVersion === undefined) {
+      return true;
+    }
+    if (!fs.existsSync(filePath)) {
+      return expectedVersion === null;
+    }
+    return expectedVersion !== null && contentVersion(fs.readFileSync(filePath, "utf8")) === expectedVersion;
+  }
+
+  // Serialize conditional writes across processes (and machines sharing the mount) with an atomic mkdir
+  private async withMutex<T>(filePath: string, fn: () => T): Promise<T> {
+    const mutexPath = `${filePath}.mutex`;
+    const deadline = Date.now() + MUTEX_TIMEOUT_MS;
+    fs.ensureDirSync(path.dirname(filePath));
+
+    for (;;) {
+      try {
+        fs.mkdirSync(mutexPath);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+        // The holder may release the mutex between our mkdir and stat, then it is free to take right away
+        let mutexAge: number;
+        try {
+          mutexAge = Date.now() - fs.statSync(mutexPath).mtimeMs;
+        } catch (statError) {
+          if ((statError as NodeJS.ErrnoException).code === "ENOENT") {
+            continue;
+          }
+          throw statError;
+        }
+        if (mutexAge > STALE_MUTEX_MS) {
+          fs.removeSync(mutexPath);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for ${mutexPath}`);
+        }
+        await sleep(50);
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      fs.removeSync(mutexPath);
+    }
+  }
+
+  private resolveKey(key: string): string {
+    const resolved = path.resolve(this.location, ...key.split("/"));
+    if (resolved !== this.location && !resolved.startsWith(this.location + path.sep)) {
+      throw new Error(`Storage key ${key} points outside of ${this.location}`);
+    }
+    return resolved;
+  }
+}
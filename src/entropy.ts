@@ -0,0 +1,196 @@
+import * as fs from "fs-extra";
+import * as crypto from "crypto";
+import * as readlineSync from "readline-sync";
+
+// Bytes read from the operating system and from devices like /dev/hwrng
+const SYSTEM_ENTROPY_BYTES = 64;
+const DEFAULT_DEVICE_BYTES = 64;
+const DEFAULT_KEYSTROKES = 64;
+// Size of every key handed to snarkjs, one per circuit
+const CIRCUIT_KEY_BYTES = 64;
+
+// A source of entropy for the contribution. Sources are only mixed together, a weak one never weakens the others.
+export interface EntropySource {
+  // Shown in the entropy report, e.g. "file ./noise.wav"
+  readonly name: string;
+  collect(): Buffer;
+}
+
+// What is reported about a source, never its values
+export interface EntropySourceReport {
+  source: string;
+  bytes: number;
+  // Shannon entropy of the byte values, at most 8 and log2 of the sample size
+  bitsPerByte: number;
+  // empty or constant samples add nothing, low ones at least look suspicious
+  verdict: "ok" | "low" | "constant" | "empty";
+}
+
+export class EntropyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntropyError";
+  }
+}
+
+// The cryptographically secure generator of the operating system, always used
+function systemEntropySource(): EntropySource {
+  return { name: "system CSPRNG", collect: () => crypto.randomBytes(SYSTEM_ENTROPY_BYTES) };
+}
+
+// The contents of a file, e.g. a photo or a noise recording made for the contribution
+export function fileEntropySource(filePath: string): EntropySource {
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    throw new EntropyError(`Entropy file ${filePath} not found`);
+  }
+  return { name: `file ${filePath}`, collect: () => fs.readFileSync(filePath) };
+}
+
+// A number of bytes read from a device, e.g. a hardware random number generator at /dev/hwrng
+export function deviceEntropySource(devicePath: string, bytes = DEFAULT_DEVICE_BYTES): EntropySource {
+  if (!fs.existsSync(devicePath)) {
+    throw new EntropyError(`Entropy device ${devicePath} not found`);
+  }
+  return {
+    name: `device ${devicePath}`,
+    collect: () => {
+      const buffer = Buffer.alloc(bytes);
+      const fd = fs.openSync(devicePath, "r");
+      try {
+        let read = 0;
+        while (read < bytes) {
+          const count = fs.readSync(fd, buffer, read, bytes - read, null);
+          if (count === 0) {
+            break;
+          }
+          read += count;
+        }
+        return buffer.subarray(0, read);
+      } finally {
+        fs.closeSync(fd);
+      }
+    },
+  };
+}
+
+// Random keys typed by the contributor, with the nanoseconds between keystrokes. The timing jitter carries most
+// of the entropy, the keys themselves are rarely as random as people think.
+export function keystrokeEntropySource(count = DEFAULT_KEYSTROKES): EntropySource {
+  return {
+    name: `${count} keystrokes`,
+    collect: () => {
+      console.log(`Type ${count} random keys, the time between them is recorded (hidden input):`);
+      const buffer = Buffer.alloc(count * 12);
+      let last = process.hrtime.bigint();
+      for (let i = 0; i < count; i++) {
+        const key = readlineSync.keyIn("", { hideEchoBack: true, mask: "" });
+        const now = process.hrtime.bigint();
+        buffer.writeUInt32BE(key.codePointAt(0) || 0, i * 12);
+        buffer.writeBigUInt64BE(now - last, i * 12 + 4);
+        last = now;
+      }
+      return buffer;
+    },
+  };
+}
+
+// Entropy source from a command line specification: file:<path>, device:<path>[:<bytes>] or keystrokes[:<count>]
+export function parseEntropySource(spec: string): EntropySource {
+  const separator = spec.indexOf(":");
+  const kind = separator < 0 ? spec : spec.substring(0, separator);
+  const argument = separator < 0 ? "" : spec.substring(separator + 1);
+
+  switch (kind) {
+    case "file":
+      return fileEntropySource(argument);
+    case "device": {
+      const match = argument.match(/^(.+?)(?::(\d+))?$/);
+      if (!match) {
+        throw new EntropyError(`Invalid entropy source ${spec}, expected device:<path>[:<bytes>]`);
+      }
+      return deviceEntropySource(match[1], match[2] ? parseInt(match[2], 10) : undefined);
+    }
+    case "keystrokes":
+      if (argument && !argument.match(/^\d+$/)) {
+        throw new EntropyError(`Invalid entropy source ${spec}, expected keystrokes[:<count>]`);
+      }
+      return keystrokeEntropySource(argument ? parseInt(argument, 10) : undefined);
+    default:
+      throw new EntropyError(`Unknown entropy source ${spec}, expected file:<path>, device:<path>[:<bytes>] or keystrokes[:<count>]`);
+  }
+}
+
+// Basic sanity check of a sample, enough to catch an empty file, a stuck device or someone holding down one key
+export function assessEntropySample(source: string, sample: Buffer): EntropySourceReport {
+  const counts = new Array<number>(256).fill(0);
+  for (const byte of sample) {
+    counts[byte]++;
+  }
+  const bitsPerByte = counts.reduce((bits, count) => {
+    const p = count / sample.length;
+    return count > 0 ? bits - p * Math.log2(p) : bits;
+  }, 0);
+
+  // A small sample can't reach 8 bits per byte, compare it with what its size allows
+  const maxBitsPerByte = Math.min(8, Math.log2(Math.max(sample.length, 1)));
+  let verdict: EntropySourceReport["verdict"] = "ok";
+  if (sample.length === 0) {
+    verdict = "empty";
+  } else if (counts.filter((count) => count > 0).length === 1) {
+    verdict = "constant";
+  } else if (bitsPerByte < maxBitsPerByte / 2) {
+    verdict = "low";
+  }
+  return { source, bytes: sample.length, bitsPerByte: Math.round(bitsPerByte * 100) / 100, verdict };
+}
+
+export function printEntropyReport(reports: EntropySourceReport[]): void {
+  console.log("Entropy sources (values are never shown):");
+  for (const report of reports) {
+    const icon = report.verdict === "ok" ? "✅" : "⚠️";
+    const note = report.verdict === "ok" ? "" : `, ${report.verdict}, it adds little or nothing`;
+    console.log(`${icon} ${report.source}: ${report.bytes} bytes, ${report.bitsPerByte} bits/byte${note}`);
+  }
+}
+
+// Secret from which the key of every circuit is derived. Every sample is zeroed as soon as it is mixed in,
+// destroy() zeroes the secret itself once the contribution is done.
+export class EntropyPool {
+  private secret: Buffer | null;
+
+  private constructor(secret: Buffer, readonly reports: EntropySourceReport[]) {
+    this.secret = secret;
+  }
+
+  // The system CSPRNG is always mixed in first, the given sources are added to it
+  static collect(sources: EntropySource[]): EntropyPool {
+    const reports: EntropySourceReport[] = [];
+    const hash = crypto.createHash("sha512");
+    for (const source of [systemEntropySource(), ...sources]) {
+      const sample = source.collect();
+      reports.push(assessEntropySample(source.name, sample));
+      // The length keeps the boundaries between sources unambiguous
+      const length = Buffer.alloc(8);
+      length.writeBigUInt64BE(BigInt(sample.length));
+      hash.update(length).update(sample);
+      sample.fill(0);
+    }
+    if (reports[0].verdict !== "ok") {
+      throw new EntropyError(`The system CSPRNG failed the sanity check (${reports[0].verdict}), refusing to contribute`);
+    }
+    return new EntropyPool(hash.digest(), reports);
+  }
+
+  // Independent key for one circuit, from HKDF-SHA512 with the circuit as context. The caller zeroes it after use.
+  deriveKey(context: string): Buffer {
+    if (!this.secret) {
+      throw new EntropyError("The entropy pool was already destroyed");
+    }
+    return Buffer.from(crypto.hkdfSync("sha512", this.secret, Buffer.alloc(0), context, CIRCUIT_KEY_BYTES));
+  }
+
+  destroy(): void {
+    this.secret?.fill(0);
+    this.secret = null;
+  }
+}
@@ -0,0 +1,192 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  contributionRootFolder,
+  getContributionFolders,
+  getZkeyFiles,
+  downloadFromStorage,
+  downloadLatestContribution,
+  ensureInitialSetup,
+  checkRequiredEnvVars,
+  computeFileHash,
+  findCircuitR1cs,
+  isFinalFolder,
+} from "./utils";
+import { getCeremonyConfig, getCircuitNames, isContributionFolder } from "./config";
+import { readAttestation, Attestation, BeaconParams } from "./attestation";
+import { releaseSnarkjs, writeZkeySolidityVerifier, writeZkeyVerificationKey } from "./snarkjsApi";
+
+const MANIFEST_VERSION = 1;
+
+interface ExportOptions {
+  folder?: string;
+  outDir: string;
+  circuits: string[];
+  download: boolean;
+}
+
+interface ExportedFile {
+  file: string;
+  sha256: string;
+}
+
+interface CircuitExport {
+  circuit: string;
+  contractName: string;
+  zkey: ExportedFile;
+  verificationKey: ExportedFile;
+  verifier: ExportedFile;
+  r1cs: ExportedFile;
+}
+
+// Binds every deployed verifier to the exact ceremony output it was generated from
+interface ExportManifest {
+  version: number;
+  generatedAt: string;
+  sourceFolder: string;
+  finalized: boolean;
+  beacon?: BeaconParams;
+  circuits: CircuitExport[];
+}
+
+function parseExportOptions(args: string[]): ExportOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      folder: { type: "string" },
+      out: { type: "string" },
+      circuits: { type: "string" },
+      "no-download": { type: "boolean" },
+    },
+  });
+
+  if (values.folder !== undefined && !isContributionFolder(values.folder)) {
+    throw new Error(`Invalid folder ${values.folder}, expected a contribution folder like 0009_final`);
+  }
+
+  return {
+    folder: values.folder,
+    outDir: values.out || "./export",
+    circuits: values.circuits ? values.circuits.split(",").map((c) => c.trim()).filter(Boolean) : getCircuitNames(),
+    download: !values["no-download"],
+  };
+}
+
+// zSwap -> ZSwapVerifier, so the verifiers of all circuits can live in the same project
+function getContractName(circuitName: string): string {
+  return `${circuitName.charAt(0).toUpperCase()}${circuitName.slice(1)}Verifier`;
+}
+
+function exportedFile(outDir: string, filePath: string): ExportedFile {
+  return { file: path.relative(outDir, filePath) || path.basename(filePath), sha256: computeFileHash(filePath) };
+}
+
+async function exportCircuit(circuitName: string, folder: string, attestation: Attestation | null, outDir: string): Promise<CircuitExport> {
+  console.log(`\nExporting ${circuitName} from ${folder}...`);
+
+  const zkeyFile = `${circuitName}.zkey`;
+  const zkeyPath = path.join(contributionRootFolder, folder, zkeyFile);
+  if (!fs.existsSync(zkeyPath)) {
+    throw new Error(`${zkeyFile} not found in ${folder}`);
+  }
+
+  const r1csPath = findCircuitR1cs(circuitName);
+  if (!r1csPath) {
+    throw new Error(`${circuitName}.r1cs not found in the r1cs folder or in ${getCeremonyConfig().initialFolder}`);
+  }
+
+  // Only export zkeys that are exactly the ones recorded by the contribution
+  const zkeyHash = computeFileHash(zkeyPath);
+  const attested = attestation ? attestation.files.find((file) => file.filename === zkeyFile) : undefined;
+  if (!attested) {
+    throw new Error(`${zkeyFile} is not listed in the attestation of ${folder}`);
+  }
+  if (attested.hash !== zkeyHash) {
+    throw new Error(`${zkeyFile} does not match its attestation in ${folder} (expected ${attested.hash}, got ${zkeyHash})`);
+  }
+
+  const contractName = getContractName(circuitName);
+  const vkeyPath = path.join(outDir, `${circuitName}_verification_key.json`);
+  const verifierPath = path.join(outDir, `${contractName}.sol`);
+
+  await writeZkeyVerificationKey(zkeyPath, vkeyPath);
+  await writeZkeySolidityVerifier(zkeyPath, verifierPath);
+
+  // snarkjs names every verifier Groth16Verifier
+  const verifier = fs.readFileSync(verifierPath, "utf8");
+  if (!verifier.includes("contract Groth16Verifier")) {
+    throw new Error(`Unexpected Solidity verifier template for ${circuitName}`);
+  }
+  fs.writeFileSync(verifierPath, verifier.replace("contract Groth16Verifier", `contract ${contractName}`));
+
+  console.log(`✅ ${circuitName} exported as ${contractName}`);
+
+  return {
+    circuit: circuitName,
+    contractName,
+    zkey: { file: path.join(folder, zkeyFile), sha256: zkeyHash },
+    verificationKey: exportedFile(outDir, vkeyPath),
+    verifier: exportedFile(outDir, verifierPath),
+    r1cs: { file: path.basename(r1csPath), sha256: computeFileHash(r1csPath) },
+  };
+}
+
+async function main(): Promise<void> {
+  try {
+    const options = parseExportOptions(process.argv.slice(2));
+
+    if (options.download) {
+      checkRequiredEnvVars();
+
+      // The initial folder holds the r1cs files when there is no local r1cs folder
+      await ensureInitialSetup();
+
+      if (!options.folder) {
+        await downloadLatestContribution();
+      } else if (getZkeyFiles(options.folder).length === 0) {
+        await downloadFromStorage(options.folder);
+      }
+    }
+
+    const contributionFolders = getContributionFolders();
+    const folder = options.folder || contributionFolders[contributionFolders.length - 1];
+    if (!folder || !contributionFolders.includes(folder)) {
+      throw new Error(`Contribution folder ${folder || "to export"} not found in ${contributionRootFolder}`);
+    }
+
+    const finalized = isFinalFolder(folder);
+    if (!finalized) {
+      console.warn(`⚠️ ${folder} is not the final beacon folder, the exported verifiers are not the ceremony output yet.`);
+    }
+
+    const attestation = readAttestation(folder);
+    fs.ensureDirSync(options.outDir);
+
+    const circuits: CircuitExport[] = [];
+    for (const circuitName of options.circuits) {
+      circuits.push(await exportCircuit(circuitName, folder, attestation, options.outDir));
+    }
+
+    const manifest: ExportManifest = {
+      version: MANIFEST_VERSION,
+      generatedAt: new Date().toISOString(),
+      sourceFolder: folder,
+      finalized,
+      ...(attestation && attestation.beacon ? { beacon: attestation.beacon } : {}),
+      circuits,
+    };
+    const manifestPath = path.join(options.outDir, "manifest.json");
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+    console.log(`\n✅ Exported ${circuits.length} circuits from ${folder} to ${options.outDir}`);
+    console.log(`Manifest written to ${manifestPath}`);
+  } catch (error) {
+    console.error(`❌ Export failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  } finally {
+    await releaseSnarkjs();
+  }
+}
+
+main();
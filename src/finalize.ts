@@ -0,0 +1,217 @@
+import * as fs from "fs-extra";
+import * as readlineSync from "readline-sync";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  contributionRootFolder,
+  getContributionFolders,
+  downloadLatestContribution,
+  ensureInitialSetup,
+  uploadToStorage,
+  crossCheckFilesWithStorage,
+  verifyUploadedFolder,
+  removeFailedUpload,
+  checkRequiredEnvVars,
+  computeFileHash,
+  finalFolderSuffix,
+  isFinalFolder,
+} from "./utils";
+import { getAttestationPath, writeAttestation, Attestation, AttestationFile, BeaconParams } from "./attestation";
+import { checkSigningKey, getPredecessorReference, getSigningKeyPath, signAttestation } from "./signing";
+import { acquireSlotLock, ContributionSlot } from "./lock";
+import { readZkeyMpcParams } from "./zkey";
+import { getCeremonyConfig, getCircuitNames, getNextContributionNumber } from "./config";
+import { assertFolderLayout } from "./layout";
+import { createStaging, getStagedFolder, promoteStaging, removeStaging } from "./staging";
+import { applyZkeyBeacon, releaseSnarkjs, writeZkeyVerificationKey } from "./snarkjsApi";
+
+interface FinalizeOptions {
+  beacon: BeaconParams;
+  yes: boolean;
+  upload: boolean;
+  signingKey: string | null;
+}
+
+function parseFinalizeOptions(args: string[]): FinalizeOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      beacon: { type: "string" },
+      iterations: { type: "string" },
+      source: { type: "string" },
+      "no-upload": { type: "boolean" },
+      key: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+    },
+  });
+
+  // Same limits as snarkjs zkey beacon, checked up front so nothing is reserved for invalid parameters
+  const hash = (values.beacon || "").replace(/^0x/i, "").toLowerCase();
+  if (!hash.match(/^([0-9a-f]{2})+$/) || hash.length / 2 >= 256) {
+    throw new Error("--beacon must be a hex encoded hash of at most 255 bytes, e.g. the hash of a future block");
+  }
+
+  const numIterationsExp = parseInt(values.iterations || "", 10);
+  if (!(numIterationsExp >= 10 && numIterationsExp <= 63)) {
+    throw new Error("--iterations must be the exponent of the number of hash iterations, between 10 and 63");
+  }
+
+  return {
+    beacon: { hash, numIterationsExp, ...(values.source ? { source: values.source } : {}) },
+    yes: !!values.yes,
+    upload: !values["no-upload"],
+    signingKey: getSigningKeyPath(values.key),
+  };
+}
+
+// The final zkey and its metadata are written to stagedFolder, the final folder while it is built in staging
+async function applyBeacon(zkeyFile: string, lastFolder: string, stagedFolder: string, beacon: BeaconParams): Promise<AttestationFile> {
+  console.log(`\nApplying the beacon to ${zkeyFile}...`);
+
+  const latestZkey = path.join(contributionRootFolder, lastFolder, zkeyFile);
+  const finalZkey = path.join(contributionRootFolder, stagedFolder, zkeyFile);
+
+  const reportedHash = (await applyZkeyBeacon(latestZkey, finalZkey, "Final Beacon", beacon.hash, beacon.numIterationsExp)).toString("hex");
+
+  // Make sure the beacon was actually applied on top of the latest contribution
+  const contributions = fs.existsSync(finalZkey) ? readZkeyMpcParams(finalZkey).contributions : [];
+  const beaconContribution = contributions[contributions.length - 1];
+  if (!beaconContribution || beaconContribution.type !== 1) {
+    throw new Error(`snarkjs did not apply the beacon to ${zkeyFile}`);
+  }
+  const contributionHash = beaconContribution.contributionHash.toString("hex");
+  if (contributionHash !== reportedHash) {
+    throw new Error(`The beacon contribution hash in ${finalZkey} differs from the one snarkjs reported`);
+  }
+
+  const vkeyName = zkeyFile.replace(".zkey", "_verification_key.json");
+  await writeZkeyVerificationKey(finalZkey, path.join(contributionRootFolder, stagedFolder, vkeyName));
+
+  fs.writeFileSync(
+    path.join(contributionRootFolder, stagedFolder, `${zkeyFile}_transcript.txt`),
+    `Final beacon applied to ${zkeyFile}\nBeacon hash: ${beacon.hash}\nIterations: 2^${beacon.numIterationsExp}\nContribution hash: ${contributionHash}\n`
+  );
+
+  console.log(`✅ Beacon applied to ${zkeyFile}`);
+  return { filename: zkeyFile, hash: computeFileHash(finalZkey), contributionHash };
+}
+
+// Apply the beacon to every zkey of the latest contribution, writing the NNNN_final folder
+async function finalizeCeremony(options: FinalizeOptions): Promise<{ finalFolder: string; predecessorFolder: string }> {
+  const contributionFolders = getContributionFolders();
+  const lastFolder = contributionFolders[contributionFolders.length - 1];
+
+  if (!lastFolder || contributionFolders.length < 2) {
+    throw new Error("There are no contributions to finalize yet.");
+  }
+  if (isFinalFolder(lastFolder)) {
+    throw new Error(`The ceremony was already finalized in ${lastFolder}`);
+  }
+
+  assertFolderLayout(lastFolder);
+  const zkeyFiles = getCircuitNames().map((circuitName) => `${circuitName}.zkey`);
+
+  const contributionNumber = getNextContributionNumber(lastFolder);
+  const finalFolder = `${contributionNumber}${finalFolderSuffix}`;
+  console.log(`Finalizing ${lastFolder} into ${finalFolder} with beacon ${options.beacon.hash} (2^${options.beacon.numIterationsExp} iterations)`);
+
+  // Built in staging, a beacon failing on a later circuit must not leave a final folder that closes the ceremony
+  const timestamp = new Date().toISOString();
+  createStaging({ folderName: finalFolder, contributionNumber, contributor: "beacon", timestamp, predecessorFolder: lastFolder });
+  const stagedFolder = getStagedFolder(finalFolder);
+  try {
+    const files: AttestationFile[] = [];
+    for (const zkeyFile of zkeyFiles) {
+      files.push(await applyBeacon(zkeyFile, lastFolder, stagedFolder, options.beacon));
+    }
+
+    const attestation: Attestation = {
+      ceremonyId: getCeremonyConfig().ceremonyId,
+      contributor: "beacon",
+      contributionNumber,
+      timestamp,
+      files,
+      beacon: options.beacon,
+      predecessor: getPredecessorReference(lastFolder),
+    };
+    writeAttestation(stagedFolder, options.signingKey ? signAttestation(attestation, options.signingKey) : attestation);
+    promoteStaging(finalFolder);
+  } catch (error) {
+    removeStaging(finalFolder);
+    throw error;
+  }
+  console.log(`✅ Attestation generated at ${getAttestationPath(finalFolder)}`);
+  assertFolderLayout(finalFolder);
+
+  return { finalFolder, predecessorFolder: lastFolder };
+}
+
+async function main(): Promise<void> {
+  let slot: ContributionSlot | null = null;
+
+  process.once("SIGINT", () => {
+    console.log("\nFinalization aborted.");
+    (slot ? slot.release() : Promise.resolve()).finally(() => process.exit(130));
+  });
+
+  try {
+    const options = parseFinalizeOptions(process.argv.slice(2));
+    if (options.signingKey) {
+      checkSigningKey(options.signingKey);
+    }
+
+    if (options.upload) {
+      checkRequiredEnvVars();
+      await ensureInitialSetup();
+
+      // Hold the slot so no contribution is added while the beacon is applied
+      console.log("\nReserving the contribution slot...");
+      slot = await acquireSlotLock("final");
+      await downloadLatestContribution();
+    }
+
+    if (!options.yes && !readlineSync.keyInYN("Finalizing closes the ceremony, no contributions will be accepted afterwards. Continue?")) {
+      console.log("Finalization cancelled.");
+      return;
+    }
+
+    const { finalFolder, predecessorFolder } = await finalizeCeremony(options);
+
+    if (slot) {
+      await slot.assertPredecessorIsLatest(predecessorFolder);
+
+      console.log(`\nUploading ${finalFolder} to storage...`);
+      try {
+        if (!(await uploadToStorage(finalFolder))) {
+          throw new Error(`Could not upload ${finalFolder} to storage`);
+        }
+        if (!(await crossCheckFilesWithStorage(finalFolder))) {
+          throw new Error(`${finalFolder} in storage doesn't match the local folder`);
+        }
+
+        // Make sure storage holds exactly the folder that was written
+        console.log(`\nComparing the uploaded files with storage...`);
+        const failedUploads = (await verifyUploadedFolder(finalFolder)).filter((check) => !check.success);
+        if (failedUploads.length > 0) {
+          throw new Error(`The upload of ${finalFolder} is incomplete or corrupted, see the files above`);
+        }
+      } catch (error) {
+        // Still holding the slot, nobody can have taken the broken upload for the end of the ceremony
+        await removeFailedUpload(finalFolder);
+        throw error;
+      }
+    }
+
+    console.log(`\n✅ The ceremony is finalized in ${finalFolder}. Run the verification to check the full chain including the beacon.`);
+  } catch (error) {
+    console.error("Error during finalization:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    if (slot) {
+      await slot.release().catch((error) => console.warn(`⚠️ Could not release the contribution slot: ${error}`));
+    }
+    await releaseSnarkjs();
+  }
+}
+
+main();
@@ -0,0 +1,203 @@
+import * as fs from "fs-extra";
+import * as readlineSync from "readline-sync";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  contributionRootFolder,
+  checkRequiredEnvVars,
+  computeFileHash,
+  ensurePtauFile,
+  getR1csFolderPath,
+  uploadToStorage,
+  crossCheckFilesWithStorage,
+} from "./utils";
+import { writeAttestation, Attestation, AttestationFile } from "./attestation";
+import { checkSigningKey, getSigningKeyPath, signAttestation } from "./signing";
+import { getCeremonyConfig, formatContributionNumber, isContributionFolder, CircuitConfig } from "./config";
+import { getCeremonyStorage } from "./storage";
+import { getVerificationKeyFileName } from "./vkey";
+import { readZkeyMpcParams } from "./zkey";
+import { assertFolderLayout } from "./layout";
+import { newZkeyFile, releaseSnarkjs, writeZkeyVerificationKey } from "./snarkjsApi";
+
+interface InitOptions {
+  r1csFolder: string;
+  // Replace an initial setup that already exists in storage, e.g. for updated circuits
+  force: boolean;
+  yes: boolean;
+  upload: boolean;
+  signingKey: string | null;
+}
+
+interface InitialCircuit {
+  zkey: AttestationFile;
+  r1cs: AttestationFile;
+}
+
+function parseInitOptions(args: string[]): InitOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "r1cs-dir": { type: "string" },
+      force: { type: "boolean" },
+      "no-upload": { type: "boolean" },
+      key: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+    },
+  });
+
+  return {
+    r1csFolder: values["r1cs-dir"] || getR1csFolderPath(),
+    force: !!values.force,
+    yes: !!values.yes,
+    upload: !values["no-upload"],
+    signingKey: getSigningKeyPath(values.key),
+  };
+}
+
+// Every configured circuit needs its r1cs, matching the pinned hash when ceremony.json has one
+function findR1csFiles(r1csFolder: string, circuits: CircuitConfig[]): Map<string, string> {
+  const errors: string[] = [];
+  const r1csFiles = new Map<string, string>();
+
+  for (const circuit of circuits) {
+    const r1csPath = path.join(r1csFolder, `${circuit.name}.r1cs`);
+    if (!fs.existsSync(r1csPath)) {
+      errors.push(`${circuit.name}.r1cs not found in ${r1csFolder}`);
+    } else if (circuit.r1csSha256 && computeFileHash(r1csPath) !== circuit.r1csSha256) {
+      errors.push(`${circuit.name}.r1cs does not match the expected SHA-256 ${circuit.r1csSha256}`);
+    } else {
+      r1csFiles.set(circuit.name, r1csPath);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Cannot create the initial setup:\n- ${errors.join("\n- ")}`);
+  }
+  return r1csFiles;
+}
+
+async function setupCircuit(circuitName: string, r1csPath: string, ptauFile: string, initialFolder: string): Promise<InitialCircuit> {
+  console.log(`\nRunning groth16 setup for ${circuitName}...`);
+
+  const folderPath = path.join(contributionRootFolder, initialFolder);
+  const r1csFile = `${circuitName}.r1cs`;
+  const zkeyFile = `${circuitName}.zkey`;
+  const zkeyPath = path.join(folderPath, zkeyFile);
+
+  fs.copyFileSync(r1csPath, path.join(folderPath, r1csFile));
+  await newZkeyFile(path.join(folderPath, r1csFile), ptauFile, zkeyPath);
+
+  // The initial zkey must not contain any contribution yet
+  if (!fs.existsSync(zkeyPath) || readZkeyMpcParams(zkeyPath).contributions.length !== 0) {
+    throw new Error(`snarkjs did not create a fresh initial zkey for ${circuitName}`);
+  }
+
+  await writeZkeyVerificationKey(zkeyPath, path.join(folderPath, getVerificationKeyFileName(zkeyFile)));
+
+  console.log(`✅ Initial zkey for ${circuitName} created`);
+  return {
+    zkey: { filename: zkeyFile, hash: computeFileHash(zkeyPath) },
+    r1cs: { filename: r1csFile, hash: computeFileHash(path.join(folderPath, r1csFile)) },
+  };
+}
+
+// Refuse to replace an initial setup others already build on
+async function checkStorageIsEmpty(initialFolder: string, force: boolean): Promise<void> {
+  const folders = (await getCeremonyStorage().listFolders()).filter(isContributionFolder);
+  const contributions = folders.filter((folder) => folder !== initialFolder);
+
+  if (contributions.length > 0) {
+    throw new Error(`The storage already contains contributions (${contributions.join(", ")}), they would not match a new initial setup`);
+  }
+  if (folders.includes(initialFolder) && !force) {
+    throw new Error(`${initialFolder} already exists in storage, use --force to replace it`);
+  }
+}
+
+// Upload the pinned ptau next to the initial setup so contributors and verifiers can download it
+async function uploadPtauFile(ptauFile: string): Promise<void> {
+  const storage = getCeremonyStorage();
+  const ptauKey = path.basename(ptauFile);
+  if (await storage.stat(ptauKey)) {
+    console.log(`${ptauKey} already exists in storage.`);
+    return;
+  }
+  console.log(`Uploading ${ptauKey} to ${storage.location}...`);
+  await storage.putFile(ptauFile, ptauKey);
+}
+
+async function main(): Promise<void> {
+  try {
+    const options = parseInitOptions(process.argv.slice(2));
+    const config = getCeremonyConfig();
+    const initialFolder = config.initialFolder;
+    const folderPath = path.join(contributionRootFolder, initialFolder);
+
+    if (options.signingKey) {
+      checkSigningKey(options.signingKey);
+    }
+    const r1csFiles = findR1csFiles(options.r1csFolder, config.circuits);
+    console.log(`Creating ${initialFolder} of ceremony ${config.ceremonyId} for ${r1csFiles.size} circuits from ${options.r1csFolder}`);
+
+    if (options.upload) {
+      checkRequiredEnvVars();
+      await checkStorageIsEmpty(initialFolder, options.force);
+    }
+
+    if (fs.existsSync(folderPath) && fs.readdirSync(folderPath).length > 0 && !options.force) {
+      throw new Error(`${folderPath} already exists, use --force to replace it`);
+    }
+
+    if (!options.yes && !readlineSync.keyInYN(`This creates a new initial setup in ${initialFolder}. Continue?`)) {
+      console.log("Initialization cancelled.");
+      return;
+    }
+
+    fs.ensureDirSync(contributionRootFolder);
+    const ptauFile = await ensurePtauFile();
+
+    fs.emptyDirSync(folderPath);
+    const circuits: InitialCircuit[] = [];
+    for (const circuit of config.circuits) {
+      circuits.push(await setupCircuit(circuit.name, r1csFiles.get(circuit.name)!, ptauFile, initialFolder));
+    }
+
+    const attestation: Attestation = {
+      ceremonyId: config.ceremonyId,
+      contributor: "initial",
+      contributionNumber: formatContributionNumber(0),
+      timestamp: new Date().toISOString(),
+      files: circuits.map((circuit) => circuit.zkey),
+      r1cs: circuits.map((circuit) => circuit.r1cs),
+    };
+    const attestationPath = writeAttestation(initialFolder, options.signingKey ? signAttestation(attestation, options.signingKey) : attestation);
+    console.log(`\n✅ Attestation generated at ${attestationPath}`);
+    assertFolderLayout(initialFolder);
+
+    if (options.upload) {
+      await uploadPtauFile(ptauFile);
+      console.log(`\nUploading ${initialFolder} to storage...`);
+      if (!(await uploadToStorage(initialFolder))) {
+        throw new Error(`Could not upload ${initialFolder}`);
+      }
+      await crossCheckFilesWithStorage(initialFolder);
+    } else {
+      console.log("\nSkipping the upload (--no-upload).");
+    }
+
+    // Pinning the hashes makes contribute and verify reject any other initial setup
+    console.log("\nPin the initial setup in ceremony.json:");
+    config.circuits.forEach((circuit, i) => {
+      console.log(`  ${circuit.name}: r1csSha256 ${circuits[i].r1cs.hash}, initialZkeySha256 ${circuits[i].zkey.hash}`);
+    });
+    console.log(`\n✅ ${initialFolder} is ready for contributions.`);
+  } catch (error) {
+    console.error("Error during initialization:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await releaseSnarkjs();
+  }
+}
+
+main();
@@ -0,0 +1,85 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder, computeFileHash, findCircuitR1cs } from "./utils";
+import { getCeremonyConfig, getCircuitNames, getRequiredArtifacts } from "./config";
+
+export interface LayoutCheckResult {
+  contributionFolder: string;
+  circuitName: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+// Check a folder against the ceremony configuration: every configured circuit must have all of its artifacts,
+// and the folder must not contain zkeys of circuits that are not part of the ceremony
+export function verifyFolderLayout(folder: string): LayoutCheckResult[] {
+  const folderPath = path.join(contributionRootFolder, folder);
+  const files = fs.existsSync(folderPath) ? fs.readdirSync(folderPath) : [];
+  const circuits = getCircuitNames();
+
+  const required = getRequiredArtifacts(folder);
+  const missingFolderFiles = required.filter((artifact) => artifact.circuitName === null && !files.includes(artifact.file)).map((artifact) => artifact.file);
+
+  const results: LayoutCheckResult[] = circuits.map((circuitName) => {
+    const missing = [
+      ...missingFolderFiles,
+      ...required.filter((artifact) => artifact.circuitName === circuitName && !files.includes(artifact.file)).map((artifact) => artifact.file),
+    ];
+    return missing.length === 0
+      ? { contributionFolder: folder, circuitName, success: true }
+      : { contributionFolder: folder, circuitName, success: false, errorMessage: `Missing ${missing.join(", ")}` };
+  });
+
+  const unexpected = files
+    .filter((file) => file.endsWith(".zkey"))
+    .map((file) => path.basename(file, ".zkey"))
+    .filter((circuitName) => !circuits.includes(circuitName));
+  for (const circuitName of unexpected) {
+    results.push({ contributionFolder: folder, circuitName, success: false, errorMessage: `Unexpected circuit ${circuitName}, it is not part of the ceremony configuration` });
+  }
+
+  for (const result of results) {
+    if (!result.success) {
+      console.error(`❌ ${folder}/${result.circuitName}: ${result.errorMessage}`);
+    }
+  }
+  return results;
+}
+
+// Throw unless the folder has exactly the configured circuits and artifacts
+export function assertFolderLayout(folder: string): void {
+  const failures = verifyFolderLayout(folder).filter((result) => !result.success);
+  if (failures.length > 0) {
+    throw new Error(`${folder} does not match the ceremony configuration:\n${failures.map((f) => `- ${f.circuitName}: ${f.errorMessage}`).join("\n")}`);
+  }
+}
+
+// The initial folder must match the configuration and the pinned hashes of the r1cs and initial zkeys
+export function assertInitialSetup(): void {
+  const { initialFolder, circuits } = getCeremonyConfig();
+  assertFolderLayout(initialFolder);
+
+  const errors: string[] = [];
+  for (const circuit of circuits) {
+    if (circuit.initialZkeySha256) {
+      const zkeyHash = computeFileHash(path.join(contributionRootFolder, initialFolder, `${circuit.name}.zkey`));
+      if (zkeyHash !== circuit.initialZkeySha256) {
+        errors.push(`${circuit.name}.zkey has SHA-256 ${zkeyHash}, expected ${circuit.initialZkeySha256}`);
+      }
+    }
+
+    if (circuit.r1csSha256) {
+      const r1csPath = findCircuitR1cs(circuit.name);
+      if (!r1csPath) {
+        console.warn(`⚠️ ${circuit.name}.r1cs not found locally, skipping its hash check`);
+      } else if (computeFileHash(r1csPath) !== circuit.r1csSha256) {
+        errors.push(`${path.basename(r1csPath)} does not match the expected SHA-256 ${circuit.r1csSha256}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`The initial setup in ${initialFolder} does not match the ceremony configuration:\n- ${errors.join("\n- ")}`);
+  }
+  console.log(`✅ ${initialFolder} matches the ceremony configuration`);
+}
@@ -0,0 +1,255 @@
+import * as os from "os";
+import * as crypto from "crypto";
+import { CeremonyStorage, getCeremonyStorage, joinStorageKey } from "./storage";
+import { isContributionFolder } from "./config";
+
+// Coordination objects live next to the contribution folders, in a folder that isn't named like a contribution folder
+export const coordinationFolder = "coordination";
+const LOCK_KEY = joinStorageKey(coordinationFolder, "slot.lock.json");
+const QUEUE_FOLDER = joinStorageKey(coordinationFolder, "queue");
+
+const DEFAULT_LOCK_TTL_MINUTES = 30;
+const DEFAULT_POLL_SECONDS = 30;
+
+export interface SlotLock {
+  holderId: string;
+  contributor: string;
+  hostname: string;
+  // Contribution number and source folder, filled in once the contribution has been set up
+  slot?: string;
+  predecessor?: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+  expiresAt: string;
+}
+
+export interface QueueEntry {
+  holderId: string;
+  contributor: string;
+  joinedAt: string;
+  expiresAt: string;
+}
+
+export interface SlotStatus {
+  lock: SlotLock | null;
+  queue: QueueEntry[];
+}
+
+// The exclusive right to add the next contribution, either held through the storage lock
+// or granted by the coordinator service
+export interface ContributionSlot {
+  heartbeat(updates?: Partial<Pick<SlotLock, "slot" | "predecessor">>): Promise<void>;
+  assertPredecessorIsLatest(predecessor: string): Promise<void>;
+  release(): Promise<void>;
+}
+
+export class SlotLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlotLockError";
+  }
+}
+
+function getLockTtlMs(): number {
+  return (parseFloat(process.env.CEREMONY_LOCK_TTL_MINUTES || "") || DEFAULT_LOCK_TTL_MINUTES) * 60 * 1000;
+}
+
+function getPollIntervalMs(): number {
+  return (parseFloat(process.env.CEREMONY_LOCK_POLL_SECONDS || "") || DEFAULT_POLL_SECONDS) * 1000;
+}
+
+// Queue entries are refreshed on every poll, so they only need to outlive a few missed polls
+function getQueueTtlMs(): number {
+  return Math.max(getPollIntervalMs() * 4, 2 * 60 * 1000);
+}
+
+function isExpired(entry: { expiresAt: string }): boolean {
+  return new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function describeSlotLock(lock: SlotLock): string {
+  const slot = lock.slot ? ` (contribution ${lock.slot}, building on ${lock.predecessor})` : "";
+  return `${lock.contributor}@${lock.hostname}${slot}, expires ${lock.expiresAt}`;
+}
+
+async function readLock(storage: CeremonyStorage): Promise<{ lock: SlotLock; version: string } | null> {
+  const stored = await storage.readObject(LOCK_KEY);
+  return stored ? { lock: JSON.parse(stored.content) as SlotLock, version: stored.version } : null;
+}
+
+// Read the waiting queue ordered by join time, removing entries whose owner stopped polling
+async function readQueue(storage: CeremonyStorage): Promise<QueueEntry[]> {
+  const entries: QueueEntry[] = [];
+  for (const file of await storage.listFiles(QUEUE_FOLDER)) {
+    // Temporary files of writes in progress on directory storage
+    if (file.endsWith(".partial")) {
+      continue;
+    }
+    const key = joinStorageKey(QUEUE_FOLDER, file);
+    const stored = await storage.readObject(key);
+    if (!stored) {
+      continue;
+    }
+
+    const entry = JSON.parse(stored.content) as QueueEntry;
+    if (isExpired(entry)) {
+      await storage.deleteObject(key, stored.version);
+      continue;
+    }
+    entries.push(entry);
+  }
+
+  return entries.sort((a, b) => a.joinedAt.localeCompare(b.joinedAt) || a.holderId.localeCompare(b.holderId));
+}
+
+// Current holder of the contribution slot and the contributors waiting for it
+export async function getSlotStatus(): Promise<SlotStatus> {
+  const storage = getCeremonyStorage();
+  const current = await readLock(storage);
+  return {
+    lock: current && !isExpired(current.lock) ? current.lock : null,
+    queue: await readQueue(storage),
+  };
+}
+
+// A held contribution slot. The lock is kept alive by a heartbeat until it is released.
+export class SlotLockHandle implements ContributionSlot {
+  private heartbeatTimer: NodeJS.Timeout;
+  private pending: Promise<void> = Promise.resolve();
+  private released = false;
+
+  constructor(private readonly storage: CeremonyStorage, private current: SlotLock, private version: string) {
+    const interval = Math.min(getLockTtlMs() / 3, 60 * 1000);
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) => console.warn(`⚠️ Slot lock heartbeat failed: ${error instanceof Error ? error.message : error}`));
+    }, interval);
+    // Don't keep the process alive only for the heartbeat
+    this.heartbeatTimer.unref();
+  }
+
+  get lock(): SlotLock {
+    return this.current;
+  }
+
+  // Extend the lock expiry, optionally recording the slot and predecessor being worked on
+  heartbeat(updates: Partial<Pick<SlotLock, "slot" | "predecessor">> = {}): Promise<void> {
+    this.pending = this.pending.then(async () => {
+      if (this.released) {
+        return;
+      }
+
+      const now = new Date();
+      const next: SlotLock = {
+        ...this.current,
+        ...updates,
+        heartbeatAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + getLockTtlMs()).toISOString(),
+      };
+
+      const version = await this.storage.writeObject(LOCK_KEY, JSON.stringify(next, null, 2), this.version);
+      if (!version) {
+        throw new SlotLockError("The contribution slot lock was taken over by someone else (did it expire?)");
+      }
+
+      this.current = next;
+      this.version = version;
+    });
+    return this.pending;
+  }
+
+  // Make sure we still hold the slot and nobody uploaded a contribution on top of our predecessor in the meantime
+  async assertPredecessorIsLatest(predecessor: string): Promise<void> {
+    await this.heartbeat();
+
+    const folders = (await this.storage.listFolders()).filter(isContributionFolder);
+    const latest = folders[folders.length - 1];
+    if (latest && latest !== predecessor) {
+      throw new SlotLockError(
+        `${latest} was uploaded after you started contributing on top of ${predecessor}. ` +
+          "Uploading now would fork the chain, please run the contribution again."
+      );
+    }
+  }
+
+  async release(): Promise<void> {
+    clearInterval(this.heartbeatTimer);
+    await this.pending.catch(() => undefined);
+    if (this.released) {
+      return;
+    }
+    this.released = true;
+
+    if (await this.storage.deleteObject(LOCK_KEY, this.version)) {
+      console.log("Contribution slot released.");
+    } else {
+      console.warn("⚠️ Contribution slot lock was no longer held by us, nothing to release.");
+    }
+  }
+}
+
+// Wait in the queue until the contribution slot is free and we are first in line, then take the lock
+export async function acquireSlotLock(contributor: string): Promise<SlotLockHandle> {
+  const storage = getCeremonyStorage();
+  const holderId = crypto.randomBytes(8).toString("hex");
+  const joinedAt = new Date().toISOString();
+  const queueKey = joinStorageKey(QUEUE_FOLDER, `${Date.now()}_${holderId}.json`);
+  let lastStatus = "";
+
+  try {
+    for (;;) {
+      const queueEntry: QueueEntry = {
+        holderId,
+        contributor,
+        joinedAt,
+        expiresAt: new Date(Date.now() + getQueueTtlMs()).toISOString(),
+      };
+      await storage.writeObject(queueKey, JSON.stringify(queueEntry, null, 2));
+
+      const queue = await readQueue(storage);
+      const position = queue.findIndex((entry) => entry.holderId === holderId) + 1;
+      const current = await readLock(storage);
+      const lockIsFree = !current || isExpired(current.lock);
+
+      if (lockIsFree && position === 1) {
+        const now = new Date();
+        const lock: SlotLock = {
+          holderId,
+          contributor,
+          hostname: os.hostname(),
+          acquiredAt: now.toISOString(),
+          heartbeatAt: now.toISOString(),
+          expiresAt: new Date(now.getTime() + getLockTtlMs()).toISOString(),
+        };
+
+        // Conditional write: fails if someone else created or renewed the lock since we read it
+        const version = await storage.writeObject(LOCK_KEY, JSON.stringify(lock, null, 2), current ? current.version : null);
+        if (version) {
+          if (current) {
+            console.warn(`⚠️ Took over the expired slot lock of ${current.lock.contributor}`);
+          }
+          await storage.deleteObject(queueKey);
+
+          console.log(`✅ Contribution slot acquired by ${contributor}`);
+          return new SlotLockHandle(storage, lock, version);
+        }
+        continue;
+      }
+
+      const holder = current && !lockIsFree ? `Slot currently held by ${describeSlotLock(current.lock)}` : "Slot is free";
+      const status = `${holder}. You are #${position} of ${queue.length} in the queue.`;
+      if (status !== lastStatus) {
+        console.log(`⏳ ${status} Waiting...`);
+        lastStatus = status;
+      }
+
+      await sleep(getPollIntervalMs());
+    }
+  } catch (error) {
+    await storage.deleteObject(queueKey).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,104 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { parseArgs } from "util";
+import { contributionRootFolder, checkRequiredEnvVars, downloadLatestContribution, ensureInitialSetup, ensurePtauFile, isFinalFolder } from "./utils";
+import { getCeremonyConfig, checkContributorName, getNextContributionNumber } from "./config";
+import { getPtauConfig } from "./ptau";
+import { listFolderFiles, writeBundle, ContributionConfig } from "./bundle";
+import { getCoordinatorUrl, joinCoordinatorQueue, downloadFromCoordinator } from "./coordinatorClient";
+
+interface PrepareOptions {
+  githubUsername?: string;
+  out?: string;
+  // Add the ptau, so the offline machine can verify its contribution before it leaves the machine
+  includePtau: boolean;
+}
+
+function parsePrepareOptions(args: string[]): PrepareOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      name: { type: "string" },
+      out: { type: "string" },
+      "with-ptau": { type: "boolean" },
+    },
+  });
+
+  return {
+    githubUsername: values.name || process.env.CEREMONY_CONTRIBUTOR || undefined,
+    out: values.out,
+    includePtau: !!values["with-ptau"],
+  };
+}
+
+// Download the head of the chain, from the coordinator when there is one. The coordinator turn is only held for the
+// download, the offline contribution can take far longer than a turn lasts.
+async function downloadChainHead(githubUsername: string): Promise<string> {
+  const coordinatorUrl = getCoordinatorUrl();
+  if (coordinatorUrl) {
+    console.log(`\nJoining the queue of the ceremony coordinator at ${coordinatorUrl} to download the latest contribution...`);
+    const turn = await joinCoordinatorQueue(coordinatorUrl, githubUsername);
+    try {
+      return await downloadFromCoordinator(turn);
+    } finally {
+      await turn.release();
+    }
+  }
+
+  checkRequiredEnvVars();
+  await ensureInitialSetup();
+  return (await downloadLatestContribution()) || getCeremonyConfig().initialFolder;
+}
+
+async function main(): Promise<void> {
+  try {
+    const options = parsePrepareOptions(process.argv.slice(2));
+    const githubUsername = options.githubUsername;
+    if (!githubUsername) {
+      throw new Error("A GitHub username is required, use --name <username> (or CEREMONY_CONTRIBUTOR)");
+    }
+    checkContributorName(githubUsername);
+
+    const { initialFolder } = getCeremonyConfig();
+    const head = await downloadChainHead(githubUsername);
+    if (isFinalFolder(head)) {
+      throw new Error(`The ceremony was finalized in ${head}, no more contributions are accepted`);
+    }
+
+    const contributionNumber = getNextContributionNumber(head);
+    const config: ContributionConfig = {
+      contributionNumber,
+      githubUsername,
+      folderName: `${contributionNumber}_${githubUsername}`,
+      timestamp: new Date().toISOString(),
+    };
+
+    const files = listFolderFiles(initialFolder);
+    if (head !== initialFolder) {
+      files.push(...listFolderFiles(head));
+    }
+    if (options.includePtau) {
+      const ptauFileName = getPtauConfig().fileName;
+      if (getCoordinatorUrl() && !fs.existsSync(path.join(contributionRootFolder, ptauFileName))) {
+        throw new Error(`--with-ptau needs ${ptauFileName} in ${contributionRootFolder}, the coordinator doesn't hand it out`);
+      }
+      await ensurePtauFile();
+      files.push(ptauFileName);
+    }
+
+    const bundlePath = options.out || `${config.folderName}.request.bundle`;
+    console.log(`\nWriting ${files.length} files to ${bundlePath}...`);
+    writeBundle(bundlePath, { kind: "request", config, predecessorFolder: head }, files);
+
+    console.log(`✅ Request bundle for ${config.folderName} on top of ${head} written to ${bundlePath}`);
+    console.log("\nOn the air-gapped machine, with a checkout of this repository, run:");
+    console.log(`  npm run contribute -- --offline --bundle ${path.basename(bundlePath)}`);
+    console.log("then bring the response bundle back and run npm run submit-bundle -- --bundle <response bundle>.");
+    console.log(`\n⚠️ Nobody holds the contribution slot in the meantime. If another contribution is accepted first, ${head} is no longer the latest and the response bundle will be refused.`);
+  } catch (error) {
+    console.error("Error preparing the bundle:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();
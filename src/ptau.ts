@@ -0,0 +1,186 @@
+import * as fs from "fs-extra";
+import * as crypto from "crypto";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { getCeremonyConfig } from "./config";
+
+const PTAU_HEADER_SECTION = 1;
+
+// Blake2b-512 hashes of the Hermez phase 1 files, as published in the snarkjs README
+const HERMEZ_PTAU_BLAKE2B: Record<number, string> = {
+  10: "6cfeb8cda92453099d20120bdd0e8a5c4e7706c2da9a8f09ccc157ed2464d921fd0437fb70db42104769efd7d6f3c1f964bcf448c455eab6f6c7d863e88a5849",
+  11: "47c282116b892e5ac92ca238578006e31a47e7c7e70f0baa8b687f0a5203e28ea07bbbec765a98dcd654bad618475d4661bfaec3bd9ad2ed12e7abc251d94d33",
+  12: "ded2694169b7b08e898f736d5de95af87c3f1a64594013351b1a796dbee393bd825f88f9468c84505ddd11eb0b1465ac9b43b9064aa8ec97f2b73e04758b8a4a",
+  13: "58efc8bf2834d04768a3d7ffcd8e1e23d461561729beaac4e3e7a47829a1c9066d5320241e124a1a8e8aa6c75be0ba66f65bc8239a0542ed38e11276f6fdb4d9",
+  14: "eeefbcf7c3803b523c94112023c7ff89558f9b8e0cf5d6cdcba3ade60f168af4a181c9c21774b94fbae6c90411995f7d854d02ebd93fb66043dbb06f17a831c1",
+  15: "982372c867d229c236091f767e703253249a9b432c1710b4f326306bfa2428a17b06240359606cfe4d580b10a5a1f63fbed499527069c18ae17060472969ae6e",
+  16: "6a6277a2f74e1073601b4f9fed6e1e55226917efb0f0db8a07d98ab01df1ccf43eb0e8c3159432acd4960e2f29fe84a4198501fa54c8dad9e43297453efec125",
+  17: "6247a3433948b35fbfae414fa5a9355bfb45f56efa7ab4929e669264a0258976741dfbe3288bfb49828e5df02c2e633df38d2245e30162ae7e3bcca5b8b49345",
+  18: "7e6a9c2e5f05179ddfc923f38f917c9e6831d16922a902b0b4758b8e79c2ab8a81bb5f29952e16ee6c5067ed044d7857b5de120a90704c1d3b637fd94b95b13e",
+  19: "bca9d8b04242f175189872c42ceaa21e2951e0f0f272a0cc54fc37193ff6648600eaf1c555c70cdedfaf9fb74927de7aa1d33dc1e2a7f1a50619484989da0887",
+  20: "89a66eb5590a1c94e3f1ee0e72acf49b1669e050bb5f93c73b066b564dca4e0c7556a52b323178269d64af325d8fdddb33da3a27c34409b821de82aa2bf1a27b",
+  21: "9aef0573cef4ded9c4a75f148709056bf989f80dad96876aadeb6f1c6d062391f07a394a9e756d16f7eb233198d5b69407cca44594c763ab4a5b67ae73254678",
+  22: "0d64f63dba1a6f11139df765cb690da69d9b2f469a1ddd0de5e4aa628abb28f787f04c6a5fb84a235ec5ea7f41d0548746653ecab0559add658a83502d1cb21b",
+  23: "3063a0bd81d68711197c8820a92466d51aeac93e915f5136d74f63c394ee6d88c5e8016231ea6580bec02e25d491f319d92e77f5c7f46a9caa8f3b53c0ea544f",
+  24: "fa404d140d5819d39984833ca5ec3632cd4995f81e82db402371a4de7c2eae8687c62bc632a95b0c6aadba3fb02680a94e09174b7233ccd26d78baca2647c733",
+  25: "0377d860cdb09a8a31ea1b0b8c04335614c8206357181573bf294c25d5ca7dff72387224fbd868897e6769f7805b3dab02854aec6d69d7492883b5e4e5f35eeb",
+  26: "418dee4a74b9592198bd8fd02ad1aea76f9cf3085f206dfd7d594c9e264ae919611b1459a1cc920c2f143417744ba9edd7b8d51e44be9452344a225ff7eead19",
+  27: "10ffd99837c512ef99752436a54b9810d1ac8878d368fb4b806267bdd664b4abf276c9cd3c4b9039a1fa4315a0c326c0e8e9e8fe0eb588ffd4f9021bf7eae1a1",
+};
+
+export interface PtauConfig {
+  power: number;
+  fileName: string;
+  // At least one of the hashes is pinned
+  blake2b?: string;
+  sha256?: string;
+}
+
+export class PtauError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PtauError";
+  }
+}
+
+function getHermezPtauFileName(power: number): string {
+  return `powersOfTau28_hez_final_${power}.ptau`;
+}
+
+// The ptau reference of the ceremony configuration, which the CEREMONY_PTAU_* variables override.
+// The Hermez files have known hashes, any other file needs a pinned Blake2b or SHA-256 hash.
+export function getPtauConfig(): PtauConfig {
+  const reference = getCeremonyConfig().ptau;
+  const power = process.env.CEREMONY_PTAU_POWER ? parseInt(process.env.CEREMONY_PTAU_POWER, 10) : reference.power;
+  if (!(power >= 1 && power <= 28)) {
+    throw new PtauError(`Invalid CEREMONY_PTAU_POWER ${process.env.CEREMONY_PTAU_POWER}, expected a number between 1 and 28`);
+  }
+
+  // Changing the power through the environment selects the matching Hermez file, unless a file is given as well
+  const overridden = !!(process.env.CEREMONY_PTAU_POWER || process.env.CEREMONY_PTAU_FILE);
+  const fileName = process.env.CEREMONY_PTAU_FILE || (process.env.CEREMONY_PTAU_POWER ? getHermezPtauFileName(power) : reference.file);
+  const config: PtauConfig = {
+    power,
+    fileName,
+    blake2b:
+      process.env.CEREMONY_PTAU_BLAKE2B?.toLowerCase() ||
+      (overridden ? undefined : reference.blake2b) ||
+      (fileName === getHermezPtauFileName(power) ? HERMEZ_PTAU_BLAKE2B[power] : undefined),
+    sha256: process.env.CEREMONY_PTAU_SHA256?.toLowerCase() || (overridden ? undefined : reference.sha256),
+  };
+
+  if (!config.blake2b && !config.sha256) {
+    throw new PtauError(`No pinned hash for ${fileName}, set CEREMONY_PTAU_BLAKE2B or CEREMONY_PTAU_SHA256`);
+  }
+  return config;
+}
+
+// Check the ptau structure without reading all of it: every section must be complete and the power must be the expected one
+function checkPtauHeader(ptauPath: string, expectedPower: number): void {
+  const fileSize = fs.statSync(ptauPath).size;
+  const fd = fs.openSync(ptauPath, "r");
+
+  try {
+    const read = (position: number, length: number): Buffer => {
+      const buffer = Buffer.alloc(length);
+      if (position + length > fileSize || fs.readSync(fd, buffer, 0, length, position) !== length) {
+        throw new PtauError(`${path.basename(ptauPath)} is truncated (${fileSize} bytes)`);
+      }
+      return buffer;
+    };
+
+    const header = read(0, 12);
+    if (header.toString("ascii", 0, 4) !== "ptau") {
+      throw new PtauError(`${path.basename(ptauPath)} is not a ptau file`);
+    }
+
+    const nSections = header.readUInt32LE(8);
+    let position = 12;
+    let power: number | null = null;
+    for (let i = 0; i < nSections; i++) {
+      const sectionHeader = read(position, 12);
+      const type = sectionHeader.readUInt32LE(0);
+      const size = Number(sectionHeader.readBigUInt64LE(4));
+      position += 12;
+
+      if (type === PTAU_HEADER_SECTION) {
+        const n8 = read(position, 4).readUInt32LE(0);
+        power = read(position + 4 + n8, 4).readUInt32LE(0);
+      }
+      if (position + size > fileSize) {
+        throw new PtauError(`${path.basename(ptauPath)} is truncated: section ${type} ends after the end of the file`);
+      }
+      position += size;
+    }
+
+    if (power === null) {
+      throw new PtauError(`${path.basename(ptauPath)} has no header section`);
+    }
+    if (power !== expectedPower) {
+      throw new PtauError(`${path.basename(ptauPath)} has power ${power}, expected ${expectedPower}`);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function hashPtauFile(ptauPath: string): { blake2b: string; sha256: string } {
+  const blake2b = crypto.createHash("blake2b512");
+  const sha256 = crypto.createHash("sha256");
+  const buffer = Buffer.alloc(8 * 1024 * 1024);
+  const fd = fs.openSync(ptauPath, "r");
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      blake2b.update(buffer.subarray(0, bytesRead));
+      sha256.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return { blake2b: blake2b.digest("hex"), sha256: sha256.digest("hex") };
+}
+
+// Files that passed the check in this process, keyed by path, size and modification time
+const verifiedPtauFiles = new Set<string>();
+
+// Make sure the ptau is the pinned one. Throws a PtauError for a truncated, wrong power or modified file.
+export function verifyPtauIntegrity(ptauPath: string, config: PtauConfig = getPtauConfig()): void {
+  if (!fs.existsSync(ptauPath)) {
+    throw new PtauError(`PTAU file ${ptauPath} not found`);
+  }
+
+  const stat = fs.statSync(ptauPath);
+  const id = `${path.resolve(ptauPath)}:${stat.size}:${stat.mtimeMs}`;
+  if (verifiedPtauFiles.has(id)) {
+    return;
+  }
+
+  checkPtauHeader(ptauPath, config.power);
+
+  const hashes = hashPtauFile(ptauPath);
+  if (config.blake2b && hashes.blake2b !== config.blake2b) {
+    throw new PtauError(`${path.basename(ptauPath)} Blake2b hash ${hashes.blake2b} does not match the pinned ${config.blake2b}`);
+  }
+  if (config.sha256 && hashes.sha256 !== config.sha256) {
+    throw new PtauError(`${path.basename(ptauPath)} SHA-256 hash ${hashes.sha256} does not match the pinned ${config.sha256}`);
+  }
+
+  verifiedPtauFiles.add(id);
+  console.log(`✅ ${path.basename(ptauPath)} matches its pinned hash`);
+}
+
+// Full verification of the powers of tau transcript with snarkjs, this takes a long time for large powers
+export function verifyPtauTranscript(ptauPath: string): void {
+  console.log(`\nRunning snarkjs powersoftau verify on ${path.basename(ptauPath)} (this can take a long time)...`);
+  try {
+    execFileSync(process.execPath, ["--max-old-space-size=8192", "./node_modules/.bin/snarkjs", "powersoftau", "verify", ptauPath], {
+      stdio: "inherit",
+    });
+  } catch (error) {
+    throw new PtauError(`snarkjs powersoftau verify failed for ${path.basename(ptauPath)}`);
+  }
+  console.log(`✅ ${path.basename(ptauPath)} powers of tau transcript verified`);
+}
@@ -0,0 +1,131 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder } from "./utils";
+import { readAttestation, Attestation } from "./attestation";
+import { readZkeyMpcParams, formatContributionHash } from "./zkey";
+
+export interface ReceiptCheckResult {
+  contributionFolder: string;
+  circuitName: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+// Compact summary of a contribution the contributor can post publicly, anyone can later check the
+// contribution hashes are part of the final zkeys
+export function printContributionReceipt(folder: string, attestation: Attestation): void {
+  console.log("\n=== CONTRIBUTION RECEIPT ===");
+  console.log(`Ceremony: ${attestation.ceremonyId || "unknown"}`);
+  console.log(`Contribution: #${attestation.contributionNumber} by ${attestation.contributor} (${folder})`);
+  console.log(`Timestamp: ${attestation.timestamp}`);
+  for (const file of attestation.files) {
+    console.log(`${file.filename} contribution hash:`);
+    console.log(file.contributionHash ? formatContributionHash(file.contributionHash) : "\t\tunknown");
+  }
+  console.log("Post this receipt publicly, the hashes can be checked against the final zkeys with npm run verify.");
+}
+
+// Check that the contribution hash in every attestation appears in the contribution list of the zkeys of the last folder.
+// Attestations written before contribution hashes were recorded are skipped.
+export function verifyContributionReceipts(contributionFolders: string[]): ReceiptCheckResult[] {
+  const lastFolder = contributionFolders[contributionFolders.length - 1];
+  const finalHashes = new Map<string, Set<string> | null>();
+  const getFinalHashes = (zkeyFile: string): Set<string> | null => {
+    if (!finalHashes.has(zkeyFile)) {
+      const zkeyPath = path.join(contributionRootFolder, lastFolder, zkeyFile);
+      finalHashes.set(
+        zkeyFile,
+        fs.existsSync(zkeyPath) ? new Set(readZkeyMpcParams(zkeyPath).contributions.map((c) => c.contributionHash.toString("hex"))) : null
+      );
+    }
+    return finalHashes.get(zkeyFile)!;
+  };
+
+  const results: ReceiptCheckResult[] = [];
+  for (const folder of contributionFolders.slice(1)) {
+    let attestation: Attestation | null;
+    try {
+      attestation = readAttestation(folder);
+    } catch (error) {
+      // Reported by the chain of custody
+      continue;
+    }
+
+    const files = (attestation?.files || []).filter((file) => file.filename.endsWith(".zkey"));
+    if (files.length > 0 && files.every((file) => !file.contributionHash)) {
+      console.warn(`⚠️ ${folder}: the attestation has no contribution hashes, skipping the receipt check`);
+      continue;
+    }
+
+    for (const file of files) {
+      const circuitName = path.basename(file.filename, ".zkey");
+      const hashes = getFinalHashes(file.filename);
+      let errorMessage: string | undefined;
+      if (!file.contributionHash) {
+        errorMessage = "No contribution hash in the attestation";
+      } else if (!hashes) {
+        errorMessage = `${file.filename} not found in ${lastFolder}`;
+      } else if (!hashes.has(file.contributionHash.toLowerCase())) {
+        errorMessage = `Contribution hash ${file.contributionHash} does not appear in ${lastFolder}/${file.filename}`;
+      }
+
+      if (errorMessage) {
+        console.error(`❌ ${folder}/${circuitName}: ${errorMessage}`);
+        results.push({ contributionFolder: folder, circuitName, success: false, errorMessage });
+      } else {
+        results.push({ contributionFolder: folder, circuitName, success: true });
+      }
+    }
+  }
+
+  const verified = results.filter((result) => result.success).length;
+  console.log(`${verified === results.length ? "✅" : "❌"} ${verified} of ${results.length} contribution hashes found in the zkeys of ${lastFolder}`);
+  return results;
+}
+
+// Check that the contribution hash in the attestation of a new folder is the one contribution its zkeys add on top of
+// the predecessor's zkeys. Checking against the new zkeys alone would also accept the hash of an earlier contribution.
+export function verifyNewContributionReceipt(contributionFolder: string, predecessorFolder: string): ReceiptCheckResult[] {
+  let attestation: Attestation | null;
+  try {
+    attestation = readAttestation(contributionFolder);
+  } catch (error) {
+    // Reported by the chain of custody
+    return [];
+  }
+
+  const results: ReceiptCheckResult[] = [];
+  for (const file of (attestation?.files || []).filter((file) => file.filename.endsWith(".zkey"))) {
+    const circuitName = path.basename(file.filename, ".zkey");
+    const zkeyPath = path.join(contributionRootFolder, contributionFolder, file.filename);
+    const predecessorPath = path.join(contributionRootFolder, predecessorFolder, file.filename);
+    let errorMessage: string | undefined;
+
+    if (!file.contributionHash) {
+      errorMessage = "No contribution hash in the attestation";
+    } else if (!fs.existsSync(zkeyPath) || !fs.existsSync(predecessorPath)) {
+      errorMessage = `${file.filename} not found in ${fs.existsSync(zkeyPath) ? predecessorFolder : contributionFolder}`;
+    } else {
+      const contributions = readZkeyMpcParams(zkeyPath).contributions;
+      const previousHashes = new Set(readZkeyMpcParams(predecessorPath).contributions.map((c) => c.contributionHash.toString("hex")));
+      const added = contributions.length > 0 ? contributions[contributions.length - 1].contributionHash.toString("hex") : "";
+      const attestedHash = file.contributionHash.toLowerCase();
+      if (previousHashes.has(attestedHash)) {
+        errorMessage = `Contribution hash ${file.contributionHash} was already in ${predecessorFolder}/${file.filename}`;
+      } else if (attestedHash !== added) {
+        errorMessage = `Contribution hash ${file.contributionHash} is not the contribution ${contributionFolder}/${file.filename} adds`;
+      }
+    }
+
+    if (errorMessage) {
+      console.error(`❌ ${contributionFolder}/${circuitName}: ${errorMessage}`);
+      results.push({ contributionFolder, circuitName, success: false, errorMessage });
+    } else {
+      results.push({ contributionFolder, circuitName, success: true });
+    }
+  }
+
+  const verified = results.filter((result) => result.success).length;
+  console.log(`${verified === results.length ? "✅" : "❌"} ${verified} of ${results.length} contribution hashes added on top of ${predecessorFolder}`);
+  return results;
+}
@@ -0,0 +1,189 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder, computeFileHash } from "./utils";
+import type { VerificationResult } from "./verification";
+
+export type ReportFormat = "json" | "junit" | "markdown";
+export const reportFormats: ReportFormat[] = ["json", "junit", "markdown"];
+
+const DEFAULT_REPORT_FILES: Record<ReportFormat, string> = {
+  json: "verification-report.json",
+  junit: "verification-report.xml",
+  markdown: "verification-report.md",
+};
+
+export interface ReportResult extends VerificationResult {
+  // SHA-256 of the contribution zkey the result is about
+  zkeySha256?: string;
+}
+
+export interface VerificationReport {
+  generatedAt: string;
+  success: boolean;
+  tools: { trustedSetup: string; snarkjs: string; node: string };
+  ptau: { file: string; sha256: string };
+  contributions: string[];
+  summary: { total: number; passed: number; failed: number; cached: number };
+  results: ReportResult[];
+}
+
+export function getDefaultReportFile(format: ReportFormat): string {
+  return DEFAULT_REPORT_FILES[format];
+}
+
+function readPackageVersion(packageJsonPath: string): string {
+  try {
+    return fs.readJsonSync(packageJsonPath).version || "unknown";
+  } catch (error) {
+    return "unknown";
+  }
+}
+
+export function buildVerificationReport(results: VerificationResult[], contributionFolders: string[], ptauFile: string): VerificationReport {
+  // Several checks are reported for the same zkey, hash each of them once
+  const zkeyHashes = new Map<string, string | undefined>();
+  function hashZkey(folder: string, circuitName: string): string | undefined {
+    const zkeyPath = path.join(contributionRootFolder, folder, `${circuitName}.zkey`);
+    if (!zkeyHashes.has(zkeyPath)) {
+      zkeyHashes.set(zkeyPath, fs.existsSync(zkeyPath) ? computeFileHash(zkeyPath) : undefined);
+    }
+    return zkeyHashes.get(zkeyPath);
+  }
+
+  const failed = results.filter((r) => !r.success).length;
+  return {
+    generatedAt: new Date().toISOString(),
+    success: failed === 0,
+    tools: {
+      trustedSetup: readPackageVersion(path.join(__dirname, "..", "package.json")),
+      snarkjs: readPackageVersion(path.join(process.cwd(), "node_modules", "snarkjs", "package.json")),
+      node: process.version,
+    },
+    ptau: { file: path.basename(ptauFile), sha256: computeFileHash(ptauFile) },
+    contributions: contributionFolders,
+    summary: {
+      total: results.length,
+      passed: results.length - failed,
+      failed,
+      cached: results.filter((r) => r.cachedAt).length,
+    },
+    results: results.map((result) => ({ ...result, zkeySha256: hashZkey(result.contributionFolder, result.circuitName) })),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// One test suite per contribution folder, one test case per circuit and check
+function renderJunit(report: VerificationReport): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="trusted-setup verification" tests="${report.summary.total}" failures="${report.summary.failed}" timestamp="${report.generatedAt}">`,
+  ];
+
+  for (const folder of [...new Set(report.results.map((r) => r.contributionFolder))].sort()) {
+    const folderResults = report.results.filter((r) => r.contributionFolder === folder);
+    const failures = folderResults.filter((r) => !r.success).length;
+    const time = folderResults.reduce((sum, r) => sum + (r.durationMs || 0), 0) / 1000;
+    lines.push(`  <testsuite name="${escapeXml(folder)}" tests="${folderResults.length}" failures="${failures}" time="${time.toFixed(3)}">`);
+
+    for (const result of folderResults) {
+      const attributes = `name="${escapeXml(`${result.circuitName} [${result.check}]`)}" classname="${escapeXml(folder)}" time="${((result.durationMs || 0) / 1000).toFixed(3)}"`;
+      const properties = [
+        result.zkeySha256 ? `<property name="zkeySha256" value="${result.zkeySha256}"/>` : "",
+        result.cachedAt ? `<property name="cachedAt" value="${result.cachedAt}"/>` : "",
+        result.r1csSha256 ? `<property name="r1csSha256" value="${result.r1csSha256}"/>` : "",
+      ].join("");
+
+      if (result.success) {
+        lines.push(properties ? `    <testcase ${attributes}><properties>${properties}</properties></testcase>` : `    <testcase ${attributes}/>`);
+      } else {
+        const message = escapeXml(result.errorMessage || "Verification failed");
+        lines.push(`    <testcase ${attributes}>${properties ? `<properties>${properties}</properties>` : ""}<failure message="${message}">${message}</failure></testcase>`);
+      }
+    }
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+// Human readable page for the public, with the same table as the console summary
+function renderMarkdown(report: VerificationReport): string {
+  const circuits = [...new Set(report.results.map((r) => r.circuitName))].sort();
+  const folders = [...new Set(report.results.map((r) => r.contributionFolder))].sort();
+  const lines = [
+    "# Trusted Setup Verification Report",
+    "",
+    `${report.success ? "✅ All verifications passed" : `❌ ${report.summary.failed} of ${report.summary.total} verifications failed`}`,
+    "",
+    `- Generated: ${report.generatedAt}`,
+    `- Tools: trusted-setup ${report.tools.trustedSetup}, snarkjs ${report.tools.snarkjs}, node ${report.tools.node}`,
+    `- PTAU: \`${report.ptau.file}\` (SHA-256 \`${report.ptau.sha256}\`)`,
+    `- Results: ${report.summary.passed} passed, ${report.summary.failed} failed, ${report.summary.cached} from cache`,
+    "",
+    "## Summary",
+    "",
+    `| Contribution | ${circuits.join(" | ")} |`,
+    `| --- | ${circuits.map(() => "---").join(" | ")} |`,
+  ];
+
+  for (const folder of folders) {
+    const cells = circuits.map((circuit) => {
+      const circuitResults = report.results.filter((r) => r.contributionFolder === folder && r.circuitName === circuit);
+      if (circuitResults.length === 0) {
+        return "N/A";
+      }
+      const failedChecks = circuitResults.filter((r) => !r.success).map((r) => r.check);
+      return failedChecks.length === 0 ? "✅ PASS" : `❌ FAIL (${failedChecks.join(", ")})`;
+    });
+    lines.push(`| ${folder} | ${cells.join(" | ")} |`);
+  }
+
+  const initialResults = report.results.filter((r) => r.check === "initial");
+  if (initialResults.length > 0) {
+    lines.push("", "## Initial Setup", "", "| Circuit | Result | R1CS SHA-256 |", "| --- | --- | --- |");
+    initialResults.forEach((r) => lines.push(`| ${r.circuitName} | ${r.success ? "✅ genuine" : "❌ not verified"} | ${r.r1csSha256 ? `\`${r.r1csSha256}\`` : ""} |`));
+  }
+
+  const failures = report.results.filter((r) => !r.success);
+  if (failures.length > 0) {
+    lines.push("", "## Failed Verifications", "");
+    failures.forEach((r) => lines.push(`- **${r.contributionFolder}** ${r.circuitName} [${r.check}]: ${escapeMarkdown(r.errorMessage || "Verification failed")}`));
+  }
+
+  lines.push("", "## Results", "", "| Contribution | Circuit | Check | Result | Duration | Zkey SHA-256 |", "| --- | --- | --- | --- | --- | --- |");
+  for (const r of report.results) {
+    const duration = r.cachedAt ? `cached (${r.cachedAt})` : r.durationMs !== undefined ? `${(r.durationMs / 1000).toFixed(1)}s` : "";
+    lines.push(`| ${r.contributionFolder} | ${r.circuitName} | ${r.check} | ${r.success ? "✅" : "❌"} | ${duration} | ${r.zkeySha256 ? `\`${r.zkeySha256}\`` : ""} |`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function renderVerificationReport(report: VerificationReport, format: ReportFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2) + "\n";
+    case "junit":
+      return renderJunit(report);
+    case "markdown":
+      return renderMarkdown(report);
+  }
+}
+
+export function writeVerificationReport(report: VerificationReport, format: ReportFormat, outFile: string): void {
+  fs.ensureDirSync(path.dirname(outFile));
+  fs.writeFileSync(outFile, renderVerificationReport(report, format));
+}
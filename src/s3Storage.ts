@@ -0,0 +1,428 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { StorageError } from "./storageError";
+import type { CeremonyStorage, StoredFileInfo, StoredObject } from "./storage";
+
+// Files above this size are uploaded in parts, zkeys of the bigger circuits are several hundred megabytes
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+const MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 500;
+// Errors of requests that never got a response and may succeed when sent again
+const RETRYABLE_NETWORK_ERRORS = ["TimeoutError", "ECONNRESET", "ETIMEDOUT", "EPIPE"];
+
+// Error raised for failed S3 operations, carries the AWS error name and whether retrying could help
+export class S3StorageError extends StorageError {
+  constructor(
+    message: string,
+    readonly operation: string,
+    key: string | undefined,
+    readonly code: string,
+    readonly retryable: boolean,
+    cause?: unknown
+  ) {
+    super(message, key, cause);
+    this.name = "S3StorageError";
+  }
+}
+
+function toS3StorageError(error: unknown, operation: string, key?: string): S3StorageError {
+  if (error instanceof S3StorageError) {
+    return error;
+  }
+
+  const awsError = error as { name?: string; code?: string; message?: string; $retryable?: unknown; $metadata?: { httpStatusCode?: number } };
+  const statusCode = awsError?.$metadata?.httpStatusCode;
+  // Network errors only have a generic name, their errno code (ECONNRESET, ...) is more useful
+  const code = (awsError?.name === "Error" && awsError?.code) || awsError?.name || "UnknownError";
+  // Without a status code only network errors are retried, credential and configuration errors fail the same way again
+  const retryable =
+    Boolean(awsError?.$retryable) ||
+    (statusCode !== undefined && (statusCode >= 500 || statusCode === 429)) ||
+    (statusCode === undefined && RETRYABLE_NETWORK_ERRORS.some((name) => name === awsError?.name || name === awsError?.code));
+  const target = key ? ` ${key}` : "";
+
+  return new S3StorageError(`S3 ${operation}${target} failed: ${code}${awsError?.message ? ` - ${awsError.message}` : ""}`, operation, key, code, retryable, error);
+}
+
+function isNotFound(error: unknown): boolean {
+  const awsError = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return awsError?.name === "NotFound" || awsError?.name === "NoSuchKey" || awsError?.$metadata?.httpStatusCode === 404;
+}
+
+// A conditional write lost the race against another writer
+function isPreconditionFailed(error: unknown): boolean {
+  const awsError = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  const statusCode = awsError?.$metadata?.httpStatusCode;
+  return awsError?.name === "PreconditionFailed" || awsError?.name === "ConditionalRequestConflict" || statusCode === 412 || statusCode === 409;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Compute the SHA-256 (stored as object metadata) and MD5 (compared with the ETag) of a file in one pass
+function hashFileForUpload(filePath: string): { sha256: string; md5: string } {
+  const sha256 = crypto.createHash("sha256");
+  const md5 = crypto.createHash("md5");
+  const buffer = Buffer.alloc(8 * 1024 * 1024);
+  const fd = fs.openSync(filePath, "r");
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      sha256.update(buffer.subarray(0, bytesRead));
+      md5.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return { sha256: sha256.digest("hex"), md5: md5.digest("hex") };
+}
+
+function readFilePart(filePath: string, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, buffer, 0, length, position);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return buffer;
+}
+
+// Log transfer progress in 10% steps so large zkeys don't look stuck, without flooding non-TTY logs
+function createProgressReporter(label: string, totalBytes: number): (bytes: number) => void {
+  let transferred = 0;
+  let lastReportedStep = 0;
+  return (bytes: number) => {
+    transferred += bytes;
+    const step = totalBytes > 0 ? Math.floor((transferred / totalBytes) * 10) : 10;
+    if (step > lastReportedStep && totalBytes > MULTIPART_PART_SIZE) {
+      lastReportedStep = step;
+      console.log(`  ${label}: ${step * 10}% (${(transferred / 1024 / 1024).toFixed(1)}/${(totalBytes / 1024 / 1024).toFixed(1)} MB)`);
+    }
+  };
+}
+
+// Storage backed by an S3 bucket (optionally with a key prefix), accessed through the AWS SDK.
+// Custom endpoints such as MinIO or LocalStack are supported through AWS_ENDPOINT_URL.
+export class S3CeremonyStorage implements CeremonyStorage {
+  readonly backend = "s3" as const;
+  readonly location: string;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly client: S3Client;
+  private readonly maxAttempts: number;
+
+  constructor(bucketPath: string) {
+    this.location = bucketPath.replace(/\/+$/, "");
+    const [bucket, ...prefixParts] = this.location.replace("s3://", "").split("/");
+    this.bucket = bucket;
+    this.prefix = prefixParts.join("/");
+    this.maxAttempts = parseInt(process.env.S3_MAX_ATTEMPTS || "", 10) || DEFAULT_MAX_ATTEMPTS;
+
+    const endpoint = process.env.AWS_ENDPOINT_URL;
+    this.client = new S3Client({
+      region: process.env.AWS_DEFAULT_REGION,
+      endpoint,
+      // MinIO and LocalStack don't support virtual-hosted style bucket addressing
+      forcePathStyle: Boolean(endpoint) && !endpoint!.includes("amazonaws.com"),
+      // Retries are handled per operation below, so a failed transfer is retried as a whole
+      maxAttempts: 1,
+      // Integrity is checked with our own MD5/SHA-256, which S3-compatible servers all understand
+      requestChecksumCalculation: "WHEN_REQUIRED",
+      responseChecksumValidation: "WHEN_REQUIRED",
+    });
+  }
+
+  async listFolders(): Promise<string[]> {
+    const rootPrefix = this.prefix ? `${this.prefix}/` : "";
+    const folders: string[] = [];
+
+    await this.listObjects(rootPrefix, "/", (page) => {
+      for (const commonPrefix of page.CommonPrefixes || []) {
+        folders.push(commonPrefix.Prefix!.substring(rootPrefix.length).replace(/\/$/, ""));
+      }
+    });
+
+    return folders.sort();
+  }
+
+  async listFiles(folderName: string): Promise<string[]> {
+    const folderKey = `${this.toObjectKey(folderName)}/`;
+    const files: string[] = [];
+
+    await this.listObjects(folderKey, undefined, (page) => {
+      for (const object of page.Contents || []) {
+        const relativeKey = object.Key!.substring(folderKey.length);
+        if (relativeKey && !relativeKey.endsWith("/")) {
+          files.push(relativeKey);
+        }
+      }
+    });
+
+    return files.sort();
+  }
+
+  async getFile(key: string, localPath: string): Promise<void> {
+    const tempPath = `${localPath}.partial`;
+    fs.ensureDirSync(path.dirname(localPath));
+
+    await this.withRetry("download", key, async () => {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key) }));
+      const expectedSize = response.ContentLength ?? 0;
+      const sha256 = crypto.createHash("sha256");
+      const md5 = crypto.createHash("md5");
+      const reportProgress = createProgressReporter(`Downloading ${key}`, expectedSize);
+      let receivedSize = 0;
+
+      const hasher = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          sha256.update(chunk);
+          md5.update(chunk);
+          receivedSize += chunk.length;
+          reportProgress(chunk.length);
+          callback(null, chunk);
+        },
+      });
+
+      await pipeline(response.Body as Readable, hasher, fs.createWriteStream(tempPath));
+
+      if (receivedSize !== expectedSize) {
+        throw new S3StorageError(`Downloaded ${receivedSize} bytes of ${key}, expected ${expectedSize}`, "download", key, "IncompleteBody", true);
+      }
+
+      // Prefer the SHA-256 recorded at upload time, fall back to the ETag for single part uploads
+      const expectedSha256 = response.Metadata?.sha256;
+      const etag = (response.ETag || "").replace(/"/g, "");
+      if (expectedSha256 && expectedSha256 !== sha256.digest("hex")) {
+        throw new S3StorageError(`SHA-256 of downloaded ${key} does not match the uploaded checksum`, "download", key, "ChecksumMismatch", true);
+      }
+      if (!expectedSha256 && etag && !etag.includes("-") && etag !== md5.digest("hex")) {
+        throw new S3StorageError(`MD5 of downloaded ${key} does not match its ETag`, "download", key, "ChecksumMismatch", true);
+      }
+    }).catch((error) => {
+      fs.removeSync(tempPath);
+      throw error;
+    });
+
+    fs.renameSync(tempPath, localPath);
+  }
+
+  async putFile(localPath: string, key: string): Promise<void> {
+    const size = fs.statSync(localPath).size;
+    const { sha256, md5 } = hashFileForUpload(localPath);
+
+    if (size <= MULTIPART_THRESHOLD) {
+      await this.withRetry("upload", key, async () => {
+        const response = await this.client.send(
+          new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(key),
+            Body: fs.readFileSync(localPath),
+            ContentMD5: Buffer.from(md5, "hex").toString("base64"),
+            // Record the SHA-256 as object metadata so stat() can report it without downloading the object
+            Metadata: { sha256 },
+          })
+        );
+        this.checkEtag(response.ETag, md5, key);
+      });
+      return;
+    }
+
+    await this.putMultipartFile(localPath, key, size, sha256);
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const head = await this.withRetry("stat", key, () =>
+        this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key) }))
+      );
+      return {
+        key,
+        size: head.ContentLength ?? 0,
+        checksum: head.Metadata?.sha256,
+      };
+    } catch (error) {
+      if (error instanceof S3StorageError && isNotFound(error.cause)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async readObject(key: string): Promise<StoredObject | null> {
+    try {
+      return await this.withRetry("read", key, async () => {
+        const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key) }));
+        return {
+          content: await response.Body!.transformToString("utf8"),
+          version: response.ETag!,
+        };
+      });
+    } catch (error) {
+      if (error instanceof S3StorageError && isNotFound(error.cause)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async writeObject(key: string, content: string, expectedVersion?: string | null): Promise<string | null> {
+    try {
+      const response = await this.withRetry("write", key, () =>
+        this.client.send(
+          new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(key),
+            Body: content,
+            ContentType: "application/json",
+            IfNoneMatch: expectedVersion === null ? "*" : undefined,
+            IfMatch: expectedVersion || undefined,
+          })
+        )
+      );
+      return response.ETag!;
+    } catch (error) {
+      if (error instanceof S3StorageError && (isPreconditionFailed(error.cause) || (expectedVersion && isNotFound(error.cause)))) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string, expectedVersion?: string): Promise<boolean> {
+    try {
+      await this.withRetry("delete", key, () =>
+        this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key), IfMatch: expectedVersion }))
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof S3StorageError && (isPreconditionFailed(error.cause) || isNotFound(error.cause))) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async deleteFolder(folderName: string): Promise<void> {
+    for (const file of await this.listFiles(folderName)) {
+      await this.deleteObject(`${folderName}/${file}`);
+    }
+  }
+
+  async createTransferUrl(operation: "get" | "put", key: string, expiresInSeconds: number): Promise<string> {
+    const input = { Bucket: this.bucket, Key: this.toObjectKey(key) };
+    const command = operation === "get" ? new GetObjectCommand(input) : new PutObjectCommand(input);
+    return getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+  }
+
+  private async putMultipartFile(localPath: string, key: string, size: number, sha256: string): Promise<void> {
+    const objectKey = this.toObjectKey(key);
+    const { UploadId: uploadId } = await this.withRetry("upload", key, () =>
+      this.client.send(new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: objectKey, Metadata: { sha256 } }))
+    );
+
+    const reportProgress = createProgressReporter(`Uploading ${key}`, size);
+    const parts: CompletedPart[] = [];
+
+    try {
+      for (let partNumber = 1, position = 0; position < size; partNumber++, position += MULTIPART_PART_SIZE) {
+        const body = readFilePart(localPath, position, Math.min(MULTIPART_PART_SIZE, size - position));
+        const partMd5 = crypto.createHash("md5").update(body).digest();
+
+        const response = await this.withRetry("upload", `${key} (part ${partNumber})`, () =>
+          this.client.send(
+            new UploadPartCommand({
+              Bucket: this.bucket,
+              Key: objectKey,
+              UploadId: uploadId,
+              PartNumber: partNumber,
+              Body: body,
+              ContentMD5: partMd5.toString("base64"),
+            })
+          )
+        );
+        this.checkEtag(response.ETag, partMd5.toString("hex"), key);
+
+        parts.push({ ETag: response.ETag, PartNumber: partNumber });
+        reportProgress(body.length);
+      }
+
+      await this.withRetry("upload", key, () =>
+        this.client.send(
+          new CompleteMultipartUploadCommand({ Bucket: this.bucket, Key: objectKey, UploadId: uploadId, MultipartUpload: { Parts: parts } })
+        )
+      );
+    } catch (error) {
+      // Don't leave orphaned parts behind in the bucket
+      await this.client
+        .send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: objectKey, UploadId: uploadId }))
+        .catch((abortError) => console.warn(`Could not abort multipart upload of ${key}: ${abortError}`));
+      throw error;
+    }
+  }
+
+  private async listObjects(prefix: string, delimiter: string | undefined, onPage: (page: ListObjectsV2CommandOutput) => void): Promise<void> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.withRetry("list", prefix || "/", () =>
+        this.client.send(
+          new ListObjectsV2Command({ Bucket: this.bucket, Prefix: prefix, Delimiter: delimiter, ContinuationToken: continuationToken })
+        )
+      );
+      onPage(page);
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  private checkEtag(etag: string | undefined, expectedMd5: string, key: string): void {
+    const actual = (etag || "").replace(/"/g, "");
+    // Buckets using SSE-KMS return ETags that are not the MD5 of the content
+    if (actual && /^[0-9a-f]{32}$/.test(actual) && actual !== expectedMd5) {
+      throw new S3StorageError(`ETag of uploaded ${key} does not match its MD5`, "upload", key, "ChecksumMismatch", true);
+    }
+  }
+
+  // Run an S3 operation, retrying transient failures with exponential backoff and jitter
+  private async withRetry<T>(operation: string, key: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        const storageError = toS3StorageError(error, operation, key);
+        if (!storageError.retryable || attempt >= this.maxAttempts) {
+          throw storageError;
+        }
+
+        const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random());
+        console.warn(`${storageError.message}. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.maxAttempts})...`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private toObjectKey(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key;
+  }
+}
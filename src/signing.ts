@@ -0,0 +1,284 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as crypto from "crypto";
+import { execFileSync, StdioOptions } from "child_process";
+import { computeFileHash, isFinalFolder } from "./utils";
+import { Attestation, AttestationSignature, PredecessorReference, getAttestationPath, readAttestation } from "./attestation";
+import { getCeremonyConfig, getCircuitNames, getFolderNumber, formatContributionNumber } from "./config";
+
+// ssh-keygen namespace, so attestation signatures can't be replayed as signatures of something else
+const SIGNATURE_NAMESPACE = "trusted-setup-attestation";
+const DEFAULT_KEYRING_FILE = "./keyring";
+const SSH_ED25519 = "ssh-ed25519";
+
+export class SignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignatureError";
+  }
+}
+
+export interface SignatureCheckResult {
+  contributionFolder: string;
+  circuitName: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+// A line of the keyring, in the allowed_signers format of ssh-keygen: "<principal>[,<principal>...] <key type> <base64 key>"
+interface KeyringEntry {
+  principals: string[];
+  publicKey: string;
+}
+
+export function getKeyringPath(): string {
+  return process.env.CEREMONY_KEYRING || DEFAULT_KEYRING_FILE;
+}
+
+// --key, or CEREMONY_SIGNING_KEY
+export function getSigningKeyPath(keyOption?: string): string | null {
+  return keyOption || process.env.CEREMONY_SIGNING_KEY || null;
+}
+
+// Serialize with sorted keys, so the signed bytes don't depend on how the attestation was formatted
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const object = value as Record<string, unknown>;
+    const keys = Object.keys(object).filter((key) => object[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(object[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function getSignedPayload(attestation: Attestation): Buffer {
+  const { signature, ...signed } = attestation;
+  return Buffer.from(canonicalJson(signed), "utf8");
+}
+
+function sshString(data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+// OpenSSH encoding of an Ed25519 public key, as listed in the keyring and in ~/.ssh/*.pub
+function toOpenSshPublicKey(key: crypto.KeyObject): string {
+  const raw = Buffer.from(key.export({ format: "jwk" }).x as string, "base64url");
+  return `${SSH_ED25519} ${Buffer.concat([sshString(Buffer.from(SSH_ED25519)), sshString(raw)]).toString("base64")}`;
+}
+
+function fromOpenSshPublicKey(publicKey: string): crypto.KeyObject {
+  const [type, base64] = publicKey.trim().split(/\s+/);
+  const blob = Buffer.from(base64 || "", "base64");
+  const typeLength = blob.length >= 4 ? blob.readUInt32BE(0) : 0;
+  if (type !== SSH_ED25519 || blob.subarray(4, 4 + typeLength).toString() !== SSH_ED25519 || blob.length !== 4 + typeLength + 4 + 32) {
+    throw new SignatureError(`Not an ${SSH_ED25519} public key: ${publicKey}`);
+  }
+  return crypto.createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: blob.subarray(blob.length - 32).toString("base64url") }, format: "jwk" });
+}
+
+// OpenSSH private keys (or public keys whose private key is in the ssh-agent) are used through ssh-keygen,
+// PEM Ed25519 private keys directly
+function getSignatureType(keyPath: string): AttestationSignature["type"] {
+  if (!fs.existsSync(keyPath)) {
+    throw new SignatureError(`Signing key ${keyPath} not found`);
+  }
+  const content = fs.readFileSync(keyPath, "utf8");
+  if (content.includes("BEGIN OPENSSH PRIVATE KEY") || /^(ssh-|ecdsa-|sk-)/.test(content)) {
+    return "ssh";
+  }
+  try {
+    if (crypto.createPrivateKey(content).asymmetricKeyType === "ed25519") {
+      return "ed25519";
+    }
+  } catch (error) {
+    // Reported below
+  }
+  throw new SignatureError(`${keyPath} is neither an OpenSSH key nor an Ed25519 private key in PEM format`);
+}
+
+export function checkSigningKey(keyPath: string): void {
+  getSignatureType(keyPath);
+}
+
+// Reference the attestation of the predecessor, so the signature also covers the link in the chain
+export function getPredecessorReference(predecessorFolder: string): PredecessorReference {
+  const attestationPath = getAttestationPath(predecessorFolder);
+  return {
+    folder: predecessorFolder,
+    attestationSha256: fs.existsSync(attestationPath) ? computeFileHash(attestationPath) : null,
+  };
+}
+
+// Sign the attestation with the contributor key. ssh-keygen may ask for the passphrase of the key,
+// stdio lets the caller keep stdout clean.
+export function signAttestation(attestation: Attestation, keyPath: string, stdio: StdioOptions = "inherit"): Attestation {
+  const payload = getSignedPayload(attestation);
+
+  if (getSignatureType(keyPath) === "ed25519") {
+    const privateKey = crypto.createPrivateKey(fs.readFileSync(keyPath, "utf8"));
+    const publicKey = toOpenSshPublicKey(crypto.createPublicKey(privateKey));
+    console.log(`Keyring entry of this key: ${attestation.contributor} ${publicKey}`);
+    return {
+      ...attestation,
+      signature: { type: "ed25519", publicKey, signature: crypto.sign(null, payload, privateKey).toString("base64") },
+    };
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "attestation-"));
+  try {
+    const payloadPath = path.join(tempDir, "attestation.json");
+    fs.writeFileSync(payloadPath, payload);
+    execFileSync("ssh-keygen", ["-Y", "sign", "-f", keyPath, "-n", SIGNATURE_NAMESPACE, payloadPath], { stdio });
+    return { ...attestation, signature: { type: "ssh", signature: fs.readFileSync(`${payloadPath}.sig`, "utf8") } };
+  } catch (error) {
+    throw new SignatureError(`Could not sign the attestation with ${keyPath}: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    fs.removeSync(tempDir);
+  }
+}
+
+function loadKeyring(keyringPath: string): KeyringEntry[] {
+  return fs
+    .readFileSync(keyringPath, "utf8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .flatMap((line) => {
+      const fields = line.split(/\s+/);
+      // Options like namespaces="..." may come between the principals and the key
+      const keyIndex = fields.findIndex((field, i) => i > 0 && /^(ssh-|ecdsa-|sk-)/.test(field));
+      return keyIndex > 0 && fields[keyIndex + 1] ? [{ principals: fields[0].split(","), publicKey: `${fields[keyIndex]} ${fields[keyIndex + 1]}` }] : [];
+    });
+}
+
+// Returns why the signature is not valid for the contributor named in the attestation, or null if it is
+function checkSignature(attestation: Attestation, keyringPath: string, keyring: KeyringEntry[]): string | null {
+  const signature = attestation.signature!;
+  const contributorKeys = keyring.filter((entry) => entry.principals.includes(attestation.contributor));
+  if (contributorKeys.length === 0) {
+    return `${attestation.contributor} has no key in the keyring ${keyringPath}`;
+  }
+
+  const payload = getSignedPayload(attestation);
+  if (signature.type === "ed25519") {
+    if (!signature.publicKey || !contributorKeys.some((entry) => entry.publicKey === signature.publicKey!.trim().split(/\s+/).slice(0, 2).join(" "))) {
+      return `Signed with a key that is not registered for ${attestation.contributor}`;
+    }
+    return crypto.verify(null, payload, fromOpenSshPublicKey(signature.publicKey), Buffer.from(signature.signature, "base64"))
+      ? null
+      : "Invalid attestation signature";
+  }
+
+  if (signature.type !== "ssh") {
+    return `Unknown signature type ${signature.type}`;
+  }
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "attestation-"));
+  try {
+    const signaturePath = path.join(tempDir, "attestation.json.sig");
+    fs.writeFileSync(signaturePath, signature.signature);
+    execFileSync("ssh-keygen", ["-Y", "verify", "-f", keyringPath, "-I", attestation.contributor, "-n", SIGNATURE_NAMESPACE, "-s", signaturePath], {
+      input: payload,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    return null;
+  } catch (error) {
+    const output = (error as { stderr?: Buffer }).stderr?.toString().trim();
+    return `Invalid attestation signature or not signed with a key of ${attestation.contributor}${output ? `: ${output}` : ""}`;
+  } finally {
+    fs.removeSync(tempDir);
+  }
+}
+
+function checkFolderSignature(
+  folder: string,
+  previousFolder: string | null,
+  keyringPath: string,
+  keyring: KeyringEntry[] | null,
+  allowUnsigned: boolean
+): string[] {
+  let attestation: Attestation | null;
+  try {
+    attestation = readAttestation(folder);
+  } catch (error) {
+    return [error instanceof Error ? error.message : `Unreadable attestation: ${error}`];
+  }
+  if (!attestation) {
+    return ["No attestation to check the signature of"];
+  }
+
+  const errors: string[] = [];
+  // The final folder is named after the beacon, every other folder after its contributor
+  const expectedFolder = `${formatContributionNumber(getFolderNumber(folder))}_${attestation.contributor}`;
+  if (!isFinalFolder(folder) && folder !== expectedFolder) {
+    errors.push(`Folder name does not match the contributor ${attestation.contributor} of the attestation`);
+  }
+
+  if (previousFolder) {
+    const expected = getPredecessorReference(previousFolder);
+    if (!attestation.predecessor) {
+      errors.push("Attestation does not reference its predecessor");
+    } else if (attestation.predecessor.folder !== expected.folder) {
+      errors.push(`Attestation references ${attestation.predecessor.folder} as predecessor instead of ${previousFolder}`);
+    } else if (attestation.predecessor.attestationSha256 !== expected.attestationSha256) {
+      errors.push(`The attestation of ${previousFolder} changed after this contribution was signed`);
+    }
+  }
+
+  // The predecessor and folder name are checked above even when the signature can't be
+  if (!attestation.signature) {
+    if (allowUnsigned) {
+      console.warn(`⚠️ ${folder}: the attestation is not signed`);
+    } else {
+      errors.push("Attestation is not signed");
+    }
+    return errors;
+  }
+  if (!keyring) {
+    if (allowUnsigned) {
+      console.warn(`⚠️ ${folder}: keyring ${keyringPath} not found, the attestation signature is not checked`);
+    } else {
+      errors.push(`Keyring ${keyringPath} not found, the attestation signature can't be checked`);
+    }
+    return errors;
+  }
+
+  const signatureError = checkSignature(attestation, keyringPath, keyring);
+  if (signatureError) {
+    errors.push(signatureError);
+  } else if (errors.length === 0) {
+    console.log(`✅ ${folder}: attestation signed by ${attestation.contributor}`);
+  }
+  return errors;
+}
+
+// Check the signature of every attestation against the keyring, and that it references the attestation of the previous folder.
+// The first folder is only checked itself when it is the initial folder. Without a keyring every folder fails,
+// unless unsigned attestations are allowed.
+export function verifyAttestationSignatures(contributionFolders: string[], allowUnsigned = false): SignatureCheckResult[] {
+  const keyringPath = getKeyringPath();
+  const keyring = fs.existsSync(keyringPath) ? loadKeyring(keyringPath) : null;
+
+  const results: SignatureCheckResult[] = [];
+  contributionFolders.forEach((folder, i) => {
+    if (i === 0 && folder !== getCeremonyConfig().initialFolder) {
+      return;
+    }
+    console.log(`Checking the attestation signature of ${folder}...`);
+
+    const errors = checkFolderSignature(folder, i > 0 ? contributionFolders[i - 1] : null, keyringPath, keyring, allowUnsigned);
+    if (errors.length > 0) {
+      console.error(`❌ ${folder}: ${errors.join("; ")}`);
+    }
+    for (const circuitName of getCircuitNames()) {
+      results.push(errors.length === 0
+        ? { contributionFolder: folder, circuitName, success: true }
+        : { contributionFolder: folder, circuitName, success: false, errorMessage: errors.join("; ") });
+    }
+  });
+  return results;
+}
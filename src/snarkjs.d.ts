@@ -0,0 +1,24 @@
+// The parts of the snarkjs API this tool uses, snarkjs doesn't ship type declarations
+declare module "snarkjs" {
+  // snarkjs reports progress and the reason of failed checks through the logger it is given
+  export interface SnarkjsLogger {
+    debug(message: string): void;
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+  }
+
+  export namespace zKey {
+    // Groth16 setup of a circuit. Returns the hash of the circuit, -1 when the r1cs doesn't fit the ptau.
+    function newZKey(r1csName: string, ptauName: string, zkeyName: string, logger?: SnarkjsLogger): Promise<Uint8Array | -1>;
+    // Returns the contribution hash of the new contribution
+    function contribute(zkeyNameOld: string, zkeyNameNew: string, name: string, entropy: string, logger?: SnarkjsLogger): Promise<Uint8Array>;
+    // Returns the contribution hash of the beacon, false for invalid beacon parameters
+    function beacon(zkeyNameOld: string, zkeyNameNew: string, name: string, beaconHashStr: string, numIterationsExp: number, logger?: SnarkjsLogger): Promise<Uint8Array | false>;
+    function verifyFromInit(initFileName: string, pTauFileName: string, zkeyFileName: string, logger?: SnarkjsLogger): Promise<boolean>;
+    function verifyFromR1cs(r1csFileName: string, pTauFileName: string, zkeyFileName: string, logger?: SnarkjsLogger): Promise<boolean>;
+    function exportVerificationKey(zkeyName: string, logger?: SnarkjsLogger): Promise<Record<string, unknown>>;
+    // Templates are the contents of the verifier_<protocol>.sol.ejs files shipped with snarkjs, keyed by protocol
+    function exportSolidityVerifier(zKeyName: string, templates: Record<string, string>, logger?: SnarkjsLogger): Promise<string>;
+  }
+}
@@ -0,0 +1,181 @@
+/// <reference path="./snarkjs.d.ts" />
+import * as fs from "fs-extra";
+import * as path from "path";
+import { spawn } from "child_process";
+import * as snarkjs from "snarkjs";
+import type { SnarkjsLogger } from "snarkjs";
+
+// Lines of captured snarkjs output kept in the error message of a failed check
+const CAPTURED_OUTPUT_LINES = 20;
+
+export interface CapturedLogger extends SnarkjsLogger {
+  // Every captured line, in order
+  readonly lines: string[];
+  // Why snarkjs rejected the file, from its error messages and the last captured lines
+  failureReason(): string;
+}
+
+export interface SnarkjsCheckResult {
+  success: boolean;
+  errorMessage?: string;
+  durationMs: number;
+}
+
+// Logger handed to snarkjs. Messages go to the console unless captured, e.g. for parallel verifications whose
+// output would interleave. Errors are always kept, they are the only explanation snarkjs gives for a failed check.
+export function createSnarkjsLogger(capture = false): CapturedLogger {
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const log = (print: (message: string) => void, message: string) => {
+    lines.push(message);
+    if (!capture) {
+      print(message);
+    }
+  };
+
+  return {
+    lines,
+    // Per section progress, far too verbose for the console
+    debug: (message: string) => lines.push(message),
+    info: (message: string) => log(console.log, message),
+    warn: (message: string) => log(console.warn, message),
+    error: (message: string) => {
+      errors.push(message);
+      log(console.error, message);
+    },
+    failureReason: () => (errors.length > 0 ? errors : lines.slice(-CAPTURED_OUTPUT_LINES)).join("\n"),
+  };
+}
+
+// Create the initial zkey of a circuit, same as snarkjs groth16 setup
+export async function newZkeyFile(r1csFile: string, ptauFile: string, zkeyFile: string, logger: CapturedLogger = createSnarkjsLogger()): Promise<void> {
+  if ((await snarkjs.zKey.newZKey(r1csFile, ptauFile, zkeyFile, logger)) === -1) {
+    throw new Error(`snarkjs could not set up ${r1csFile}:\n${logger.failureReason()}`);
+  }
+}
+
+// Add a contribution to a zkey. The entropy only ever lives in memory, it is never put on a command line.
+// Returns the contribution hash snarkjs computed for it.
+export async function contributeToZkeyFile(oldZkeyFile: string, newZkeyFile: string, name: string, entropy: string, logger: SnarkjsLogger = createSnarkjsLogger()): Promise<Buffer> {
+  return Buffer.from(await snarkjs.zKey.contribute(oldZkeyFile, newZkeyFile, name, entropy, logger));
+}
+
+// Apply a random beacon as the last contribution of a zkey. Returns the contribution hash of the beacon.
+export async function applyZkeyBeacon(
+  oldZkeyFile: string,
+  newZkeyFile: string,
+  name: string,
+  beaconHash: string,
+  numIterationsExp: number,
+  logger: CapturedLogger = createSnarkjsLogger()
+): Promise<Buffer> {
+  const contributionHash = await snarkjs.zKey.beacon(oldZkeyFile, newZkeyFile, name, beaconHash, numIterationsExp, logger);
+  if (!contributionHash) {
+    throw new Error(`snarkjs did not apply the beacon to ${oldZkeyFile}:\n${logger.failureReason()}`);
+  }
+  return Buffer.from(contributionHash);
+}
+
+async function runSnarkjsCheck(check: (logger: SnarkjsLogger) => Promise<boolean>, captureOutput: boolean): Promise<SnarkjsCheckResult> {
+  const startedAt = Date.now();
+  const logger = createSnarkjsLogger(captureOutput);
+  try {
+    if (await check(logger)) {
+      return { success: true, durationMs: Date.now() - startedAt };
+    }
+    const reason = logger.failureReason();
+    // A few checks of snarkjs print their reason on the console instead of the logger
+    const errorMessage = reason ? `snarkjs rejected the zkey:\n${reason}` : "snarkjs rejected the zkey, see its output above";
+    return { success: false, errorMessage, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return { success: false, errorMessage: error instanceof Error ? error.message : `${error}`, durationMs: Date.now() - startedAt };
+  }
+}
+
+// Plain JavaScript, the child process loads snarkjs directly and doesn't depend on how this file is run (ts-node or
+// built). Log messages are sent to the parent, which hands them to its logger.
+const CHECK_PROCESS_SOURCE = `
+const { snarkjsPath, method, args } = JSON.parse(process.argv[1]);
+const snarkjs = require(snarkjsPath);
+const logger = {};
+for (const level of ["debug", "info", "warn", "error"]) {
+  logger[level] = (message) => process.send({ level, message: String(message) });
+}
+snarkjs.zKey[method](...args, logger).then(
+  (success) => process.send({ success: !!success }, () => process.exit(0)),
+  (error) => process.send({ error: error instanceof Error ? error.message : String(error) }, () => process.exit(0))
+);
+`;
+
+type CheckProcessMessage = { level: keyof SnarkjsLogger; message: string } | { success: boolean } | { error: string };
+
+// Run a snarkjs zKey check in a node process with a heap of at most maxHeapMb, like the snarkjs CLI ran with
+// --max-old-space-size. Parallel checks don't share the heap of this process, and running out of memory fails the
+// check instead of the process. A worker thread can't be used, snarkjs takes any worker thread for one of its own.
+function runInCheckProcess(method: "verifyFromInit" | "verifyFromR1cs", args: string[], logger: SnarkjsLogger, maxHeapMb: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const job = JSON.stringify({ snarkjsPath: require.resolve("snarkjs"), method, args });
+    const child = spawn(process.execPath, [`--max-old-space-size=${maxHeapMb}`, "-e", CHECK_PROCESS_SOURCE, job], {
+      stdio: ["ignore", "pipe", "pipe", "ipc"],
+    });
+    let outcome: { success: boolean } | { error: string } | null = null;
+
+    // A few checks of snarkjs print on the console instead of the logger
+    child.stdout?.on("data", (data: Buffer) => data.toString().trimEnd().split("\n").forEach((line) => logger.info(line)));
+    child.stderr?.on("data", (data: Buffer) => data.toString().trimEnd().split("\n").forEach((line) => logger.warn(line)));
+    child.on("message", (message: CheckProcessMessage) => {
+      if ("level" in message) {
+        logger[message.level](message.message);
+      } else {
+        outcome = message;
+      }
+    });
+    child.on("error", reject);
+    child.on("close", (code, signal) => {
+      if (outcome && "error" in outcome) {
+        reject(new Error(outcome.error));
+      } else if (outcome) {
+        resolve(outcome.success);
+      } else {
+        reject(new Error(`snarkjs exited with ${signal || `code ${code}`} before finishing, it may have run out of its ${maxHeapMb} MB heap`));
+      }
+    });
+  });
+}
+
+// Verify every contribution of a zkey back to the initial zkey and the ptau (snarkjs zkvi)
+export function verifyZkeyFromInit(initialZkeyFile: string, ptauFile: string, zkeyFile: string, maxHeapMb: number, captureOutput = false): Promise<SnarkjsCheckResult> {
+  return runSnarkjsCheck((logger) => runInCheckProcess("verifyFromInit", [initialZkeyFile, ptauFile, zkeyFile], logger, maxHeapMb), captureOutput);
+}
+
+// Recompute the initial zkey from the r1cs and the ptau and compare the zkey with it (snarkjs zkv)
+export function verifyZkeyFromR1cs(r1csFile: string, ptauFile: string, zkeyFile: string, maxHeapMb: number, captureOutput = false): Promise<SnarkjsCheckResult> {
+  return runSnarkjsCheck((logger) => runInCheckProcess("verifyFromR1cs", [r1csFile, ptauFile, zkeyFile], logger, maxHeapMb), captureOutput);
+}
+
+export function exportZkeyVerificationKey(zkeyFile: string): Promise<Record<string, unknown>> {
+  return snarkjs.zKey.exportVerificationKey(zkeyFile, createSnarkjsLogger(true));
+}
+
+// Same format as snarkjs zkey export verificationkey
+export async function writeZkeyVerificationKey(zkeyFile: string, vkeyFile: string): Promise<void> {
+  fs.writeFileSync(vkeyFile, JSON.stringify(await exportZkeyVerificationKey(zkeyFile), null, 1));
+}
+
+// Same contract as snarkjs zkey export solidityverifier, from the Groth16 template shipped with snarkjs
+export async function writeZkeySolidityVerifier(zkeyFile: string, verifierFile: string): Promise<void> {
+  const templateFile = path.join(path.dirname(require.resolve("snarkjs")), "..", "templates", "verifier_groth16.sol.ejs");
+  const templates = { groth16: fs.readFileSync(templateFile, "utf8") };
+  fs.writeFileSync(verifierFile, await snarkjs.zKey.exportSolidityVerifier(zkeyFile, templates, createSnarkjsLogger(true)));
+}
+
+// snarkjs keeps the curves it built, with their worker threads, for later calls.
+// Terminate them once done, otherwise the process never exits.
+export async function releaseSnarkjs(): Promise<void> {
+  const curves = globalThis as { curve_bn128?: { terminate(): Promise<void> } | null; curve_bls12381?: { terminate(): Promise<void> } | null };
+  for (const curve of [curves.curve_bn128, curves.curve_bls12381]) {
+    if (curve) {
+      await curve.terminate();
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder, computeFileHash } from "./utils";
+import type { AttestationFile } from "./attestation";
+
+const STAGING_VERSION = 1;
+// Contributions are built in contributions/.staging/<folder> and only moved next to the other folders once complete.
+// The name doesn't look like a contribution folder, so getContributionFolders never picks it up.
+export const stagingFolderName = ".staging";
+const STATE_FILE = "staging.json";
+
+export interface StagingState {
+  version: number;
+  folderName: string;
+  contributionNumber: string;
+  contributor: string;
+  timestamp: string;
+  predecessorFolder: string;
+  // Circuits contributed to so far, with the hash of their zkey
+  completed: AttestationFile[];
+}
+
+// Folder of a staged contribution relative to the contributions folder, for functions taking a folder name
+export function getStagedFolder(folderName: string): string {
+  return path.join(stagingFolderName, folderName);
+}
+
+function getStagingPath(folderName: string): string {
+  return path.join(contributionRootFolder, stagingFolderName, folderName);
+}
+
+function writeStagingState(state: StagingState): void {
+  const statePath = path.join(getStagingPath(state.folderName), STATE_FILE);
+  fs.writeFileSync(`${statePath}.tmp`, JSON.stringify(state, null, 2));
+  fs.renameSync(`${statePath}.tmp`, statePath);
+}
+
+export function createStaging(state: Omit<StagingState, "version" | "completed">): StagingState {
+  const stagingPath = getStagingPath(state.folderName);
+  fs.removeSync(stagingPath);
+  fs.ensureDirSync(stagingPath);
+
+  const staged = { version: STAGING_VERSION, ...state, completed: [] };
+  writeStagingState(staged);
+  return staged;
+}
+
+// Every staged contribution with a readable state, folders without one are removed as they can't be resumed
+export function listStagedContributions(): StagingState[] {
+  const stagingRoot = path.join(contributionRootFolder, stagingFolderName);
+  if (!fs.existsSync(stagingRoot)) {
+    return [];
+  }
+
+  const staged: StagingState[] = [];
+  for (const folderName of fs.readdirSync(stagingRoot).sort()) {
+    try {
+      const state = fs.readJsonSync(path.join(stagingRoot, folderName, STATE_FILE)) as StagingState;
+      if (state.version === STAGING_VERSION && state.folderName === folderName && Array.isArray(state.completed)) {
+        staged.push(state);
+        continue;
+      }
+    } catch (error) {
+      // Removed below
+    }
+    console.log(`Removing unreadable staging folder ${folderName}`);
+    removeStaging(folderName);
+  }
+  return staged;
+}
+
+export function recordStagedCircuit(state: StagingState, file: AttestationFile): void {
+  state.completed = [...state.completed.filter((completed) => completed.filename !== file.filename), file];
+  writeStagingState(state);
+}
+
+// Circuits of an interrupted contribution that can be kept: their zkey is still the one that was recorded
+export function getReusableCircuits(state: StagingState): AttestationFile[] {
+  return state.completed.filter((file) => {
+    if (!file.contributionHash) {
+      return false;
+    }
+    const zkeyPath = path.join(getStagingPath(state.folderName), file.filename);
+    return fs.existsSync(zkeyPath) && computeFileHash(zkeyPath) === file.hash;
+  });
+}
+
+// Move the complete contribution next to the other folders. The rename is atomic, so the folder is either
+// missing or complete for everything looking at the contributions folder.
+export function promoteStaging(folderName: string): void {
+  const targetPath = path.join(contributionRootFolder, folderName);
+  if (fs.existsSync(targetPath)) {
+    throw new Error(`${targetPath} already exists, the contribution stays in ${getStagingPath(folderName)}`);
+  }
+  fs.renameSync(getStagingPath(folderName), targetPath);
+  fs.removeSync(path.join(targetPath, STATE_FILE));
+}
+
+export function removeStaging(folderName: string): void {
+  fs.removeSync(getStagingPath(folderName));
+}
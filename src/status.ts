@@ -0,0 +1,328 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { parseArgs } from "util";
+import { contributionRootFolder, getContributionFolders, checkRequiredEnvVars, compareFolderWithStorage, findCircuitR1cs, isFinalFolder } from "./utils";
+import { readAttestation, attestationFileName, Attestation } from "./attestation";
+import { getCeremonyConfig, getCircuitNames, getFolderNumber, formatContributionNumber, isContributionFolder } from "./config";
+import { getCeremonyStorage, joinStorageKey } from "./storage";
+import { getPtauConfig } from "./ptau";
+import { VerificationCache } from "./verificationCache";
+import { describeSlotLock, getSlotStatus } from "./lock";
+import { getCoordinatorUrl, fetchCeremonyState } from "./coordinatorClient";
+
+interface StatusOptions {
+  json: boolean;
+  // Only look at the local contributions folder, e.g. without storage credentials
+  remote: boolean;
+}
+
+// verified: a cached zkvi (or initial setup) result matches the local files
+// unverified: the files are local but were never verified on this machine
+// unknown: the zkey, initial zkey or ptau is not available locally
+type CircuitVerification = "verified" | "unverified" | "unknown";
+
+interface CircuitStatus {
+  circuitName: string;
+  // From the local zkey, or the checksum storage keeps for it
+  zkeySha256: string | null;
+  verification: CircuitVerification;
+  verifiedAt?: string;
+}
+
+// Files that differ between the local folder and storage, for folders present on both sides
+interface FolderDriftStatus {
+  missingLocal: string[];
+  missingRemote: string[];
+  // Present on both sides with a different SHA-256
+  changed: string[];
+}
+
+interface FolderStatus {
+  folder: string;
+  contributor: string | null;
+  timestamp: string | null;
+  local: boolean;
+  // null when storage was not checked
+  remote: boolean | null;
+  circuits: CircuitStatus[];
+  drift?: FolderDriftStatus;
+}
+
+interface QueueStatus {
+  source: "coordinator" | "storage";
+  active: string | null;
+  waiting: { contributor: string; joinedAt: string }[];
+}
+
+interface CeremonyStatus {
+  ceremonyId: string;
+  generatedAt: string;
+  storage: string | null;
+  head: string | null;
+  finalized: boolean;
+  folders: FolderStatus[];
+  // Contribution numbers missing from the sequence, and numbers used by several folders
+  gaps: string[];
+  duplicates: { number: string; folders: string[] }[];
+  queue: QueueStatus | null;
+  problems: string[];
+}
+
+function parseStatusOptions(args: string[]): StatusOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      json: { type: "boolean" },
+      "no-remote": { type: "boolean" },
+    },
+  });
+
+  return {
+    json: !!values.json,
+    remote: !values["no-remote"],
+  };
+}
+
+// The attestation of a folder, read locally or from storage, null if it has none or it can't be read
+async function loadAttestation(folder: string, local: boolean, remote: boolean): Promise<Attestation | null> {
+  try {
+    if (local) {
+      return readAttestation(folder);
+    }
+    if (remote) {
+      const stored = await getCeremonyStorage().readObject(joinStorageKey(folder, attestationFileName));
+      return stored ? (JSON.parse(stored.content) as Attestation) : null;
+    }
+  } catch (error) {
+    console.warn(`⚠️ Unreadable attestation in ${folder}: ${error instanceof Error ? error.message : error}`);
+  }
+  return null;
+}
+
+// Look up the verification of a circuit in the cache, keyed like verify does
+function getCachedVerification(cache: VerificationCache, folder: string, circuitName: string, ptauFile: string): Pick<CircuitStatus, "verification" | "verifiedAt"> {
+  const { initialFolder } = getCeremonyConfig();
+  const zkeyFile = path.join(contributionRootFolder, folder, `${circuitName}.zkey`);
+  const baseFile = folder === initialFolder ? findCircuitR1cs(circuitName) : path.join(contributionRootFolder, initialFolder, `${circuitName}.zkey`);
+
+  if (!baseFile || ![zkeyFile, baseFile, ptauFile].every((file) => fs.existsSync(file))) {
+    return { verification: "unknown" };
+  }
+  const cached = cache.lookup(baseFile, ptauFile, zkeyFile);
+  return cached ? { verification: "verified", verifiedAt: cached.verifiedAt } : { verification: "unverified" };
+}
+
+async function getFolderStatus(folder: string, localFolders: string[], remoteFolders: string[] | null, cache: VerificationCache, ptauFile: string): Promise<FolderStatus> {
+  const local = localFolders.includes(folder);
+  const remote = remoteFolders ? remoteFolders.includes(folder) : null;
+  const attestation = await loadAttestation(folder, local, !!remote);
+  const storage = remote ? getCeremonyStorage() : null;
+
+  const circuits: CircuitStatus[] = [];
+  for (const circuitName of getCircuitNames()) {
+    const zkeyFile = path.join(contributionRootFolder, folder, `${circuitName}.zkey`);
+    if (local && fs.existsSync(zkeyFile)) {
+      circuits.push({ circuitName, zkeySha256: cache.hashFile(zkeyFile), ...getCachedVerification(cache, folder, circuitName, ptauFile) });
+    } else {
+      const stat = storage ? await storage.stat(joinStorageKey(folder, `${circuitName}.zkey`)) : null;
+      circuits.push({ circuitName, zkeySha256: stat?.checksum || null, verification: "unknown" });
+    }
+  }
+
+  const status: FolderStatus = {
+    folder,
+    contributor: attestation?.contributor || folder.substring(folder.indexOf("_") + 1),
+    timestamp: attestation?.timestamp || null,
+    local,
+    remote,
+    circuits,
+  };
+
+  // Same comparison as the cross-check after downloads and uploads, plus the checksums storage knows
+  if (local && remote && storage) {
+    const { localFiles, missingLocalFiles, missingRemoteFiles } = await compareFolderWithStorage(folder);
+    const changed: string[] = [];
+    for (const file of localFiles.filter((file) => !missingRemoteFiles.includes(file))) {
+      const stat = await storage.stat(joinStorageKey(folder, file));
+      if (stat?.checksum && stat.checksum !== cache.hashFile(path.join(contributionRootFolder, folder, file))) {
+        changed.push(file);
+      }
+    }
+    status.drift = { missingLocal: missingLocalFiles, missingRemote: missingRemoteFiles, changed };
+  }
+  return status;
+}
+
+// Numbers skipped in the NNNN_ sequence and numbers taken by more than one folder
+function findSequenceProblems(folders: string[]): Pick<CeremonyStatus, "gaps" | "duplicates"> {
+  const byNumber = new Map<number, string[]>();
+  for (const folder of folders) {
+    const number = getFolderNumber(folder);
+    byNumber.set(number, [...(byNumber.get(number) || []), folder]);
+  }
+
+  const gaps: string[] = [];
+  const highest = Math.max(-1, ...byNumber.keys());
+  for (let number = 0; number <= highest; number++) {
+    if (!byNumber.has(number)) {
+      gaps.push(formatContributionNumber(number));
+    }
+  }
+
+  const duplicates = [...byNumber.entries()]
+    .filter(([, numbered]) => numbered.length > 1)
+    .map(([number, numbered]) => ({ number: formatContributionNumber(number), folders: numbered }));
+  return { gaps, duplicates };
+}
+
+// Who holds the contribution slot and who is waiting, from the coordinator when there is one
+async function getQueueStatus(): Promise<QueueStatus> {
+  const coordinatorUrl = getCoordinatorUrl();
+  if (coordinatorUrl) {
+    const state = await fetchCeremonyState(coordinatorUrl);
+    return {
+      source: "coordinator",
+      active: state.active ? `${state.active.contributor} (${state.active.state}${state.active.turnExpiresAt ? `, expires ${state.active.turnExpiresAt}` : ""})` : null,
+      waiting: state.queue.map(({ contributor, joinedAt }) => ({ contributor, joinedAt })),
+    };
+  }
+
+  const { lock, queue } = await getSlotStatus();
+  return {
+    source: "storage",
+    active: lock ? describeSlotLock(lock) : null,
+    waiting: queue.map(({ contributor, joinedAt }) => ({ contributor, joinedAt })),
+  };
+}
+
+async function getCeremonyStatus(options: StatusOptions): Promise<CeremonyStatus> {
+  const ceremony = getCeremonyConfig();
+  const localFolders = fs.existsSync(contributionRootFolder) ? getContributionFolders() : [];
+  const remoteFolders = options.remote ? (await getCeremonyStorage().listFolders()).filter(isContributionFolder) : null;
+  const folders = [...new Set([...localFolders, ...(remoteFolders || [])])].sort();
+
+  const cache = VerificationCache.load();
+  const ptauFile = path.join(contributionRootFolder, getPtauConfig().fileName);
+
+  const folderStatuses: FolderStatus[] = [];
+  for (const folder of folders) {
+    console.log(`Reading ${folder}...`);
+    folderStatuses.push(await getFolderStatus(folder, localFolders, remoteFolders, cache, ptauFile));
+  }
+
+  const { gaps, duplicates } = findSequenceProblems(folders);
+  const head = folders.length > 0 ? folders[folders.length - 1] : null;
+  const finalFolder = folders.find(isFinalFolder);
+
+  const problems: string[] = [
+    ...gaps.map((number) => `No folder with number ${number}`),
+    ...duplicates.map((duplicate) => `Number ${duplicate.number} is used by ${duplicate.folders.join(", ")}`),
+    ...(finalFolder && finalFolder !== head ? [`${head} follows the final folder ${finalFolder}`] : []),
+  ];
+  for (const status of folderStatuses) {
+    if (status.drift) {
+      const { missingLocal, missingRemote, changed } = status.drift;
+      missingLocal.forEach((file) => problems.push(`${status.folder}/${file} is in storage but not local`));
+      missingRemote.forEach((file) => problems.push(`${status.folder}/${file} is local but not in storage`));
+      changed.forEach((file) => problems.push(`${status.folder}/${file} differs between local and storage`));
+    }
+  }
+
+  return {
+    ceremonyId: ceremony.ceremonyId,
+    generatedAt: new Date().toISOString(),
+    storage: options.remote ? getCeremonyStorage().location : null,
+    head,
+    finalized: !!finalFolder,
+    folders: folderStatuses,
+    gaps,
+    duplicates,
+    queue: options.remote ? await getQueueStatus() : null,
+    problems,
+  };
+}
+
+function formatLocation(status: FolderStatus): string {
+  if (status.remote === null) {
+    return "local";
+  }
+  if (status.local && status.remote) {
+    return status.drift && Object.values(status.drift).some((files) => files.length > 0) ? "⚠️ drift" : "both";
+  }
+  return status.local ? "local only" : "storage only";
+}
+
+function formatCircuit(circuit: CircuitStatus): string {
+  const hash = circuit.zkeySha256 ? circuit.zkeySha256.substring(0, 12) : "no zkey";
+  if (circuit.verification === "verified") {
+    return `✅ ${hash}`;
+  }
+  return circuit.verification === "unverified" ? `⏳ ${hash}` : `? ${hash}`;
+}
+
+function printStatusTable(status: CeremonyStatus): void {
+  console.log(`\n=== CEREMONY ${status.ceremonyId} ===\n`);
+  console.log(`Storage: ${status.storage || "not checked (--no-remote)"}`);
+  console.log(`Head: ${status.head || "none"}${status.finalized ? " (finalized)" : ""}\n`);
+
+  const circuits = getCircuitNames();
+  const rows = status.folders.map((folder) => [
+    folder.folder,
+    folder.contributor || "",
+    folder.timestamp || "",
+    formatLocation(folder),
+    ...folder.circuits.map(formatCircuit),
+  ]);
+  const header = ["Folder", "Contributor", "Timestamp", "Location", ...circuits];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+
+  console.log(header.map((title, i) => title.padEnd(widths[i])).join(" | "));
+  console.log(widths.map((width) => "-".repeat(width)).join(" | "));
+  rows.forEach((row) => console.log(row.map((cell, i) => cell.padEnd(widths[i])).join(" | ")));
+  console.log("\n✅ verified (cached)  ⏳ not verified on this machine  ? not available locally");
+
+  if (status.queue) {
+    console.log(`\n=== QUEUE (${status.queue.source}) ===`);
+    console.log(`Contributing: ${status.queue.active || "nobody"}`);
+    status.queue.waiting.forEach((entry, i) => console.log(`${i + 1}. ${entry.contributor}, waiting since ${entry.joinedAt}`));
+  }
+
+  console.log("\n=== HEALTH ===");
+  if (status.problems.length === 0) {
+    console.log("✅ No gaps, duplicate numbers or drift between local and storage");
+  } else {
+    status.problems.forEach((problem) => console.log(`❌ ${problem}`));
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    const options = parseStatusOptions(process.argv.slice(2));
+    if (options.json) {
+      // Keep stdout for the JSON status
+      console.log = console.error;
+      console.info = console.error;
+    }
+
+    if (options.remote) {
+      checkRequiredEnvVars();
+    }
+
+    const status = await getCeremonyStatus(options);
+    if (options.json) {
+      process.stdout.write(JSON.stringify(status, null, 2) + "\n");
+    } else {
+      printStatusTable(status);
+    }
+
+    // Let scripts gate on the health of the ceremony
+    if (status.problems.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Error reading the ceremony status:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();
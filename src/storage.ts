@@ -0,0 +1,76 @@
+import { DirectoryCeremonyStorage } from "./directoryStorage";
+import { S3CeremonyStorage } from "./s3Storage";
+import { getCeremonyConfig } from "./config";
+
+export { StorageError } from "./storageError";
+
+export type StorageBackend = "s3" | "local";
+
+export interface StoredFileInfo {
+  key: string;
+  size: number;
+  // Hex encoded SHA-256 of the content, when the backend knows it
+  checksum?: string;
+}
+
+// A small metadata object (lock, queue entry, ...) together with an opaque version used for conditional writes
+export interface StoredObject {
+  content: string;
+  version: string;
+}
+
+// Shared storage holding the initial setup, the ptau file and every contribution folder.
+// Keys are "/" separated paths relative to the storage root, e.g. "0001_alice/zSwap.zkey".
+export interface CeremonyStorage {
+  readonly backend: StorageBackend;
+  // Human readable location, used in log messages
+  readonly location: string;
+
+  listFolders(): Promise<string[]>;
+  listFiles(folderName: string): Promise<string[]>;
+  getFile(key: string, localPath: string): Promise<void>;
+  putFile(localPath: string, key: string): Promise<void>;
+  stat(key: string): Promise<StoredFileInfo | null>;
+
+  readObject(key: string): Promise<StoredObject | null>;
+  // Atomically write a small object. When expectedVersion is null the write only succeeds if the object
+  // doesn't exist yet, when it is a version string only if the object is unchanged since it was read.
+  // Returns the new version of the object, or null if the precondition failed.
+  writeObject(key: string, content: string, expectedVersion?: string | null): Promise<string | null>;
+  // Delete an object, only if it still has expectedVersion when given. Returns false if the precondition failed.
+  deleteObject(key: string, expectedVersion?: string): Promise<boolean>;
+  // Delete a folder with every object in it, e.g. a contribution folder whose upload failed halfway
+  deleteFolder(folderName: string): Promise<void>;
+  // Short-lived URL giving direct access to a single object, for backends that support it
+  createTransferUrl?(operation: "get" | "put", key: string, expiresInSeconds: number): Promise<string>;
+}
+
+// CEREMONY_STORAGE overrides the backend of the ceremony configuration
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.CEREMONY_STORAGE || getCeremonyConfig().storage.backend).toLowerCase();
+  if (backend !== "s3" && backend !== "local") {
+    throw new Error(`Unknown CEREMONY_STORAGE backend "${backend}", expected "s3" or "local"`);
+  }
+  return backend;
+}
+
+let storage: CeremonyStorage | null = null;
+
+// Get the storage backend selected through CEREMONY_STORAGE (defaults to S3)
+export function getCeremonyStorage(): CeremonyStorage {
+  if (!storage) {
+    // The backend may come from ceremony.json, without checkRequiredEnvVars having run
+    const backend = getStorageBackend();
+    const variable = backend === "local" ? "CEREMONY_STORAGE_DIR" : "S3BUCKET";
+    const value = process.env[variable];
+    if (!value) {
+      throw new Error(`The ${backend} storage backend needs ${variable} to be set`);
+    }
+    storage = backend === "local" ? new DirectoryCeremonyStorage(value) : new S3CeremonyStorage(value);
+  }
+  return storage;
+}
+
+export function joinStorageKey(...parts: string[]): string {
+  return parts.filter(Boolean).join("/");
+}
@@ -0,0 +1,7 @@
+// Raised by storage backends when an operation fails for good (after any retries)
+export class StorageError extends Error {
+  constructor(message: string, readonly key?: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
@@ -0,0 +1,120 @@
+import * as path from "path";
+import { parseArgs } from "util";
+import { contributionRootFolder, checkRequiredEnvVars, computeFileHash, downloadLatestContribution, ensureInitialSetup, ensurePtauFile, removeFailedUpload, uploadToStorage, verifyUploadedFolder } from "./utils";
+import { getCeremonyConfig } from "./config";
+import { extractBundle, readBundleManifest, ContributionResult } from "./bundle";
+import { readAttestation } from "./attestation";
+import { printContributionReceipt } from "./receipt";
+import { verifyNewContribution } from "./verification";
+import { releaseSnarkjs } from "./snarkjsApi";
+import { acquireSlotLock, ContributionSlot } from "./lock";
+import { getCoordinatorUrl, joinCoordinatorQueue, downloadFromCoordinator } from "./coordinatorClient";
+
+// Unpack the response bundle and check the folder holds the contribution its result describes
+function takeResponseBundle(bundlePath: string): ContributionResult {
+  const manifest = readBundleManifest(bundlePath);
+  if (manifest.kind !== "response" || !manifest.result) {
+    throw new Error(`${bundlePath} is not a response bundle, create one with npm run contribute -- --offline`);
+  }
+
+  console.log(`Unpacking ${manifest.result.config.folderName} from ${bundlePath}...`);
+  extractBundle(bundlePath);
+
+  const result = manifest.result;
+  for (const contribution of result.contributions) {
+    const actualHash = computeFileHash(path.join(contributionRootFolder, result.config.folderName, contribution.filename));
+    if (actualHash !== contribution.hash) {
+      throw new Error(`${contribution.filename} in the bundle doesn't match its contribution result`);
+    }
+  }
+  return result;
+}
+
+async function submitToCoordinator(coordinatorUrl: string, result: ContributionResult): Promise<void> {
+  console.log(`\nJoining the queue of the ceremony coordinator at ${coordinatorUrl}...`);
+  const turn = await joinCoordinatorQueue(coordinatorUrl, result.config.githubUsername);
+  try {
+    await downloadFromCoordinator(turn);
+    await turn.assertPredecessorIsLatest(result.predecessorFolder);
+
+    console.log(`\nSubmitting ${result.config.folderName} to the coordinator...`);
+    const submission = await turn.submit(result.config.folderName);
+    submission.results
+      .filter((r) => !r.success)
+      .forEach((r) => console.error(`❌ ${r.circuitName} [${r.check}]: ${r.errorMessage || "Verification failed"}`));
+    if (!submission.accepted) {
+      throw new Error(`The coordinator rejected ${submission.folderName}, see the failed verifications above`);
+    }
+    console.log(`✅ ${submission.folderName} was verified and accepted by the coordinator`);
+  } finally {
+    await turn.release().catch((error) => console.warn(`⚠️ Could not leave the coordinator queue: ${error}`));
+  }
+}
+
+async function submitToStorage(result: ContributionResult): Promise<void> {
+  const { folderName, githubUsername } = result.config;
+  checkRequiredEnvVars();
+  await ensureInitialSetup();
+
+  console.log("\nReserving the next contribution slot...");
+  const slot: ContributionSlot = await acquireSlotLock(githubUsername);
+  try {
+    await downloadLatestContribution();
+    await slot.assertPredecessorIsLatest(result.predecessorFolder);
+
+    // Nothing reaches storage without the checks the coordinator would run
+    console.log(`\nVerifying ${folderName}...`);
+    const verification = await verifyNewContribution(folderName, result.predecessorFolder, getCeremonyConfig().initialFolder, await ensurePtauFile());
+    const failed = verification.filter((r) => !r.success);
+    failed.forEach((r) => console.error(`❌ ${r.circuitName} [${r.check}]: ${r.errorMessage || "Verification failed"}`));
+    if (failed.length > 0) {
+      throw new Error(`${folderName} failed ${failed.length} of ${verification.length} checks and was not uploaded`);
+    }
+    console.log(`✅ ${verification.length} checks passed`);
+
+    console.log(`\nUploading ${folderName} to storage...`);
+    try {
+      if (!(await uploadToStorage(folderName))) {
+        throw new Error(`Could not upload ${folderName} to storage`);
+      }
+      const failedUploads = (await verifyUploadedFolder(folderName)).filter((check) => !check.success);
+      if (failedUploads.length > 0) {
+        throw new Error(`The upload of ${folderName} is incomplete or corrupted, see the files above`);
+      }
+    } catch (error) {
+      // Still holding the slot, nobody can have built on the broken upload
+      await removeFailedUpload(folderName);
+      throw error;
+    }
+    console.log(`✅ ${folderName} is identical in storage`);
+  } finally {
+    await slot.release().catch((error) => console.warn(`⚠️ Could not release the contribution slot: ${error}`));
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    const { values } = parseArgs({ args: process.argv.slice(2), options: { bundle: { type: "string" } } });
+    if (!values.bundle) {
+      throw new Error("Give the response bundle with --bundle <file>");
+    }
+
+    const result = takeResponseBundle(values.bundle);
+    const coordinatorUrl = getCoordinatorUrl();
+    if (coordinatorUrl) {
+      await submitToCoordinator(coordinatorUrl, result);
+    } else {
+      await submitToStorage(result);
+    }
+
+    printContributionReceipt(result.config.folderName, readAttestation(result.config.folderName)!);
+    console.log(`\n=== CONTRIBUTION ${result.config.folderName} SUBMITTED ===`);
+  } catch (error) {
+    console.error("Error submitting the bundle:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await releaseSnarkjs();
+  }
+}
+
+main();
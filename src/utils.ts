@@ -1,20 +1,34 @@
 import * as fs from "fs-extra";
+import * as os from "os";
 import * as path from "path";
-import { execSync } from "child_process";
+import * as crypto from "crypto";
 import dotenv from "dotenv";
+import { getCeremonyStorage, getStorageBackend, joinStorageKey, StorageBackend } from "./storage";
+import { getPtauConfig, verifyPtauIntegrity } from "./ptau";
+import { getCeremonyConfig, isContributionFolder } from "./config";
 
 // Load environment variables from .env file - this works in local dev but may not in Docker
 dotenv.config();
 
 // Function to check required environment variables
 export function checkRequiredEnvVars(): void {
-  const requiredVars = [
-    'AWS_ACCESS_KEY_ID',
-    'AWS_SECRET_ACCESS_KEY',
-    'AWS_DEFAULT_REGION',
-    'AWS_ENDPOINT_URL',
-    'S3BUCKET'
-  ];
+  let backend: StorageBackend;
+  try {
+    backend = getStorageBackend();
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const requiredVars = backend === "local"
+    ? ['CEREMONY_STORAGE_DIR']
+    : [
+      'AWS_ACCESS_KEY_ID',
+      'AWS_SECRET_ACCESS_KEY',
+      'AWS_DEFAULT_REGION',
+      'AWS_ENDPOINT_URL',
+      'S3BUCKET'
+    ];
 
   const missingVars = requiredVars.filter(varName => !process.env[varName]);
 
@@ -37,20 +51,6 @@ export function checkRequiredEnvVars(): void {
 
 export const contributionRootFolder = "./contributions";
 
-// Get S3 configuration from environment variables
-const S3_BUCKET_PATH = process.env.S3BUCKET!
-export const S3_BUCKET_NAME = S3_BUCKET_PATH.replace("s3://", "");
-export const AWS_REGION = process.env.AWS_DEFAULT_REGION!;
-export const AWS_ENDPOINT = process.env.AWS_ENDPOINT_URL!;
-
-// Use environment variables for AWS credentials
-const AWS_ENV_VARS = {
-  AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
-  AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
-  AWS_DEFAULT_REGION: AWS_REGION,
-  AWS_ENDPOINT_URL: AWS_ENDPOINT,
-};
-
 export function getDirectories(source: string): string[] {
   return fs
     .readdirSync(source, { withFileTypes: true })
@@ -63,134 +63,111 @@ export function getZkeyFiles(directory: string): string[] {
   return fs.readdirSync(zkFilesFolder).filter((file) => file.endsWith(".zkey"));
 }
 
+// The folder written by the beacon finalization, it closes the ceremony
+export const finalFolderSuffix = "_final";
+
+export function isFinalFolder(folder: string): boolean {
+  return isContributionFolder(folder) && folder.substring(folder.indexOf("_")) === finalFolderSuffix;
+}
+
 export function getContributionFolders(): string[] {
   const folders = getDirectories(contributionRootFolder);
-  const contributionFolders = folders.filter((f) => f.match(/^\d{4}_/));
+  const contributionFolders = folders.filter(isContributionFolder);
   contributionFolders.sort();
   return contributionFolders;
 }
 
-export function getCircuitR1cs(initialFolder: string): string {
-  const folder = path.join(contributionRootFolder, initialFolder);
-  const r1csFiles = fs.readdirSync(folder).filter((file) => file.endsWith(".r1cs"));
-
-  if (r1csFiles.length === 0) {
-    throw new Error(`No .r1cs files found in ${initialFolder}`);
-  }
-
-  return path.join(initialFolder, r1csFiles[0]);
-}
+// Compute the SHA-256 of a file in chunks so large zkeys are not loaded into memory at once
+export function computeFileHash(filePath: string): string {
+  const hash = crypto.createHash("sha256");
+  const buffer = Buffer.alloc(8 * 1024 * 1024);
+  const fd = fs.openSync(filePath, "r");
 
-// Check if AWS CLI is available
-function isAwsCliAvailable(): boolean {
   try {
-    execSync("aws --version", { stdio: "ignore" });
-    return true;
-  } catch (error) {
-    return false;
-  }
-}
-
-// Run AWS CLI commands with environment variables
-function runAwsCommand(command: string, stdio: "inherit" | "pipe" | "ignore" = "inherit"): string {
-  if (!isAwsCliAvailable()) {
-    console.warn("AWS CLI not available or not compatible with current environment.");
-    if (command.includes("s3 cp") && command.includes("--recursive")) {
-      throw new Error("AWS CLI not available or not compatible with current environment.");
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
     }
-    return "";
+  } finally {
+    fs.closeSync(fd);
   }
 
-  const envVars = { ...process.env, ...AWS_ENV_VARS };
-
-  try {
-    return execSync(command, { env: envVars, stdio, encoding: "utf8" });
-  } catch (error) {
-    if (stdio === "ignore") {
-      return "";
-    }
-    console.warn(`Command failed: ${command}`);
-    console.warn("This may be due to architecture compatibility issues in Docker.");
-    return "";
-  }
+  return hash.digest("hex");
 }
 
-// S3 functions for downloading and uploading files
-export function downloadFromS3(prefix?: string): boolean {
+// Download a single contribution folder, or every contribution folder when no prefix is given
+export async function downloadFromStorage(prefix?: string): Promise<boolean> {
   try {
-    const s3Path = prefix ? `${S3_BUCKET_PATH}/${prefix}` : S3_BUCKET_PATH;
+    const storage = getCeremonyStorage();
     const localPath = prefix ? path.join(contributionRootFolder, prefix) : contributionRootFolder;
 
     // Ensure the local directory exists
     fs.ensureDirSync(localPath);
 
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 download.");
-      return false;
-    }
+    const folders = prefix ? [prefix] : (await storage.listFolders()).filter(isContributionFolder);
+    console.log(`Downloading files from ${storage.location}${prefix ? `/${prefix}` : ""} to ${localPath}...`);
 
-    console.log(`Downloading files from ${s3Path} to ${localPath}...`);
-    const result = runAwsCommand(`aws s3 cp ${s3Path} ${localPath} --recursive`);
+    let downloadedCount = 0;
+    for (const folder of folders) {
+      for (const file of await storage.listFiles(folder)) {
+        await storage.getFile(joinStorageKey(folder, file), path.join(contributionRootFolder, folder, file));
+        downloadedCount++;
+      }
+    }
 
-    if (result !== "") {
+    if (downloadedCount > 0) {
       console.log("Download complete!");
       return true;
     } else {
-      console.warn("S3 download was not successful. Proceeding with local files only.");
+      console.warn("Download was not successful. Proceeding with local files only.");
       return false;
     }
   } catch (error) {
-    console.error("Error downloading files from S3:", error);
+    console.error("Error downloading files from storage:", error);
     console.warn("Proceeding with local files only.");
     return false;
   }
 }
 
-export function uploadToS3(folderName: string): boolean {
+export async function uploadToStorage(folderName: string): Promise<boolean> {
   try {
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 upload.");
-      return false;
-    }
-
+    const storage = getCeremonyStorage();
     const localPath = path.join(contributionRootFolder, folderName);
-    const s3Path = `${S3_BUCKET_PATH}/${folderName}`;
 
-    console.log(`Uploading files from ${localPath} to ${s3Path}...`);
-    const result = runAwsCommand(`aws s3 cp ${localPath} ${s3Path} --recursive`);
+    console.log(`Uploading files from ${localPath} to ${storage.location}/${folderName}...`);
+    const files = getFilesRecursively(localPath);
+    for (const file of files) {
+      await storage.putFile(path.join(localPath, file), joinStorageKey(folderName, ...file.split(path.sep)));
+    }
 
-    if (result !== "") {
+    if (files.length > 0) {
       console.log("Upload complete!");
       return true;
     } else {
-      console.warn("S3 upload was not successful.");
+      console.warn("Upload was not successful, no files found to upload.");
       return false;
     }
   } catch (error) {
-    console.error("Error uploading files to S3:", error);
+    console.error("Error uploading files to storage:", error);
     return false;
   }
 }
 
 // Function to download the latest contribution folder
-export function downloadLatestContribution(): string | null {
+export async function downloadLatestContribution(): Promise<string | null> {
   try {
-    if (!isAwsCliAvailable()) {
-      console.warn("AWS CLI not available. Skipping S3 download check.");
-      return null;
-    }
+    const storage = getCeremonyStorage();
 
-    // List folders in S3 bucket and get the latest contribution folder
-    const output = runAwsCommand(`aws s3 ls ${S3_BUCKET_PATH}/ | grep -o "[0-9]\\{4\\}_[^/]*/" | sort | tail -1`, "pipe");
+    // List folders in storage and get the latest contribution folder
+    const folders = (await storage.listFolders()).filter(isContributionFolder);
 
-    if (!output) {
-      console.log("No contribution folders found in S3 bucket or S3 access failed.");
+    if (folders.length === 0) {
+      console.log("No contribution folders found in storage or storage access failed.");
       return null;
     }
 
-    // Remove trailing slash
-    const folderName = output.trim().replace(/\/$/, "");
-    console.log(`Latest contribution folder in S3: ${folderName}`);
+    const folderName = folders[folders.length - 1];
+    console.log(`Latest contribution folder in storage: ${folderName}`);
 
     // Check if the folder already exists locally
     const localPath = path.join(contributionRootFolder, folderName);
@@ -210,13 +187,13 @@ export function downloadLatestContribution(): string | null {
       console.log(`Folder ${folderName} already exists locally with required zkey files. Skipping download.`);
 
       // Even if folder exists, we should cross-check to make sure all files are present
-      crossCheckFilesWithS3(folderName);
+      await crossCheckFilesWithStorage(folderName);
     } else {
       // Download the folder if it doesn't exist locally or doesn't have required files
       console.log(`Folder ${folderName} doesn't exist locally or is missing required zkey files. Downloading...`);
-      const success = downloadFromS3(folderName);
+      const success = await downloadFromStorage(folderName);
       if (!success) {
-        console.warn(`Could not download ${folderName} from S3. Will proceed with local files only.`);
+        console.warn(`Could not download ${folderName} from storage. Will proceed with local files only.`);
       } else {
         // Verify the downloaded folder has the required zkey files
         if (!hasRequiredZkeyFiles(localPath)) {
@@ -227,15 +204,15 @@ export function downloadLatestContribution(): string | null {
 
     return folderName;
   } catch (error) {
-    console.error("Error getting latest contribution from S3:", error);
+    console.error("Error getting latest contribution from storage:", error);
     console.warn("Will proceed with local files only.");
     return null;
   }
 }
 
 // Download initial setup if not available locally
-export function ensureInitialSetup(): void {
-  const initialFolder = "0000_initial";
+export async function ensureInitialSetup(): Promise<void> {
+  const initialFolder = getCeremonyConfig().initialFolder;
   const localPath = path.join(contributionRootFolder, initialFolder);
 
   // Create contributions root directory if it doesn't exist
@@ -258,100 +235,107 @@ export function ensureInitialSetup(): void {
 
   // Check if initial folder exists AND has required files
   if (!fs.existsSync(localPath) || !hasRequiredInitialFiles()) {
-    console.log(`Initial setup folder not found locally or missing required files. Attempting to download from S3...`);
-    const success = downloadFromS3(initialFolder);
+    console.log(`Initial setup folder not found locally or missing required files. Attempting to download from storage...`);
+    const success = await downloadFromStorage(initialFolder);
 
     if (!success || !hasRequiredInitialFiles()) {
       console.warn(`
-⚠️  WARNING: Could not download initial setup from S3 or initial setup is missing required files.
+⚠️  WARNING: Could not download initial setup from storage or initial setup is missing required files.
 If this is your first time running the tool, you need either:
-1. A working AWS configuration to download the initial setup from S3
-2. The initial setup files in ./contributions/0000_initial including .r1cs and .zkey files
+1. A working storage configuration (AWS credentials or CEREMONY_STORAGE_DIR) to download the initial setup
+2. The initial setup files in ./contributions/${initialFolder} including .r1cs and .zkey files
+Coordinators create a new initial setup from the r1cs files with \`npm run init\`.
 `);
       throw new Error("Cannot proceed without proper initial setup");
     }
   } else {
     console.log(`Initial setup folder exists locally with required files.`);
     // Even if folder exists with basic required files, cross-check to ensure all files are present
-    crossCheckFilesWithS3(initialFolder);
+    await crossCheckFilesWithStorage(initialFolder);
   }
 }
 
-// Check if files match between S3 and local directories
-export function crossCheckFilesWithS3(folderName: string): boolean {
-  if (!isAwsCliAvailable()) {
-    console.warn("AWS CLI not available. Skipping S3 file cross-check.");
-    return false;
-  }
-
-  try {
-    console.log(`Cross-checking files between S3 and local for ${folderName}...`);
+function getFilesRecursively(dir: string, baseDir: string = dir): string[] {
+  let results: string[] = [];
+  const files = fs.readdirSync(dir);
 
-    // Get list of files from S3
-    const s3FilesOutput = runAwsCommand(`aws s3 ls ${S3_BUCKET_PATH}/${folderName}/ --recursive | awk '{print $4}' | sort`, "pipe");
-
-    if (!s3FilesOutput) {
-      console.warn(`No files found in S3 for folder ${folderName}`);
-      return false;
-    }
+  files.forEach((file) => {
+    const fullPath = path.join(dir, file);
+    const relativePath = path.relative(baseDir, fullPath);
 
-    // Parse S3 files (remove the folder prefix from each file)
-    const s3Files = s3FilesOutput
-      .trim()
-      .split("\n")
-      .map((file) => file.replace(`${folderName}/`, ""))
-      .filter(Boolean);
-
-    // Get local files
-    const localPath = path.join(contributionRootFolder, folderName);
-    if (!fs.existsSync(localPath)) {
-      console.warn(`Local folder ${folderName} does not exist`);
-      return false;
+    if (fs.statSync(fullPath).isDirectory()) {
+      results = results.concat(getFilesRecursively(fullPath, baseDir));
+    } else {
+      results.push(relativePath);
     }
+  });
 
-    const getFilesRecursively = (dir: string, baseDir: string = dir): string[] => {
-      let results: string[] = [];
-      const files = fs.readdirSync(dir);
+  return results;
+}
 
-      files.forEach((file) => {
-        const fullPath = path.join(dir, file);
-        const relativePath = path.relative(baseDir, fullPath);
+// List of OS-specific files to ignore
+const ignoreFiles = [".DS_Store", "Thumbs.db", ".directory", "._*"];
 
-        if (fs.statSync(fullPath).isDirectory()) {
-          results = results.concat(getFilesRecursively(fullPath, baseDir));
-        } else {
-          results.push(relativePath);
-        }
-      });
+// Function to check if a file should be ignored
+function shouldIgnoreFile(file: string): boolean {
+  return ignoreFiles.some((pattern) => {
+    if (pattern.endsWith("*")) {
+      return file.startsWith(pattern.slice(0, -1));
+    }
+    return file === pattern;
+  });
+}
 
-      return results;
-    };
+// Files of a folder on each side, relative to the folder and without OS-specific files
+export interface FolderDrift {
+  localFiles: string[];
+  remoteFiles: string[];
+  missingLocalFiles: string[];
+  missingRemoteFiles: string[];
+}
 
-    const localFiles = getFilesRecursively(localPath).sort();
+// Compare the files of a folder in storage and locally, without changing either side
+export async function compareFolderWithStorage(folderName: string): Promise<FolderDrift> {
+  const localPath = path.join(contributionRootFolder, folderName);
+  const remoteFiles = (await getCeremonyStorage().listFiles(folderName)).filter((file) => !shouldIgnoreFile(file));
+  const localFiles = fs.existsSync(localPath)
+    ? getFilesRecursively(localPath).map((file) => file.split(path.sep).join("/")).filter((file) => !shouldIgnoreFile(file)).sort()
+    : [];
+
+  return {
+    localFiles,
+    remoteFiles,
+    missingLocalFiles: remoteFiles.filter((file) => !localFiles.includes(file)),
+    missingRemoteFiles: localFiles.filter((file) => !remoteFiles.includes(file)),
+  };
+}
 
-    // List of OS-specific files to ignore
-    const ignoreFiles = [".DS_Store", "Thumbs.db", ".directory", "._*"];
+// Check if files match between storage and local directories
+export async function crossCheckFilesWithStorage(folderName: string): Promise<boolean> {
+  try {
+    const storage = getCeremonyStorage();
+    console.log(`Cross-checking files between storage and local for ${folderName}...`);
 
-    // Function to check if a file should be ignored
-    function shouldIgnoreFile(file: string): boolean {
-      return ignoreFiles.some((pattern) => {
-        if (pattern.endsWith("*")) {
-          return file.startsWith(pattern.slice(0, -1));
-        }
-        return file === pattern;
-      });
+    const localPath = path.join(contributionRootFolder, folderName);
+    const {
+      localFiles: filteredLocalFiles,
+      remoteFiles: filteredRemoteFiles,
+      missingLocalFiles,
+      missingRemoteFiles,
+    } = await compareFolderWithStorage(folderName);
+
+    if (filteredRemoteFiles.length === 0) {
+      console.warn(`No files found in storage for folder ${folderName}`);
+      return false;
     }
 
-    // Filter out ignored files from both lists
-    const filteredS3Files = s3Files.filter((file) => !shouldIgnoreFile(file));
-    const filteredLocalFiles = localFiles.filter((file) => !shouldIgnoreFile(file));
-
-    // Find missing files (ignoring OS-specific files)
-    const missingLocalFiles = filteredS3Files.filter((file) => !filteredLocalFiles.includes(file));
-    const missingS3Files = filteredLocalFiles.filter((file) => !filteredS3Files.includes(file));
+    if (!fs.existsSync(localPath)) {
+      console.warn(`Local folder ${folderName} does not exist`);
+      return false;
+    }
 
     if (missingLocalFiles.length > 0) {
-      console.warn(`Missing ${missingLocalFiles.length} files locally that exist in S3 for ${folderName}:`);
+      console.warn(`Missing ${missingLocalFiles.length} files locally that exist in storage for ${folderName}:`);
       missingLocalFiles.forEach((file) => console.warn(`  - ${file}`));
 
       // Download missing files
@@ -365,16 +349,9 @@ export function crossCheckFilesWithS3(folderName: string): boolean {
         // Download each missing file
         let downloadedCount = 0;
         for (const file of missingLocalFiles) {
-          const s3Path = `${S3_BUCKET_PATH}/${folderName}/${file}`;
-          const localFilePath = path.join(localPath, file);
-
-          // Make sure the directory for the file exists
-          fs.ensureDirSync(path.dirname(localFilePath));
-
           console.log(`Downloading ${file}...`);
-          const downloadCmd = `aws s3 cp ${s3Path} ${localFilePath}`;
           try {
-            runAwsCommand(downloadCmd);
+            await storage.getFile(joinStorageKey(folderName, file), path.join(localPath, file));
             downloadedCount++;
           } catch (error) {
             console.error(`Failed to download ${file}: ${error}`);
@@ -385,28 +362,29 @@ export function crossCheckFilesWithS3(folderName: string): boolean {
       }
     }
 
-    // Report missing S3 files (ignoring OS-specific files)
-    if (missingS3Files.length > 0) {
-      console.log(`${missingS3Files.length} files exist locally but not in S3 for ${folderName} (OS-specific files ignored)`);
+    // Report missing remote files (ignoring OS-specific files)
+    if (missingRemoteFiles.length > 0) {
+      console.log(`${missingRemoteFiles.length} files exist locally but not in storage for ${folderName} (OS-specific files ignored)`);
     }
 
     // Special check for zkey files
-    const s3ZkeyFiles = filteredS3Files.filter((file) => file.endsWith(".zkey"));
+    const remoteZkeyFiles = filteredRemoteFiles.filter((file) => file.endsWith(".zkey"));
     const localZkeyFiles = filteredLocalFiles.filter((file) => file.endsWith(".zkey"));
 
-    if (s3ZkeyFiles.length > localZkeyFiles.length) {
-      console.warn(`Missing ${s3ZkeyFiles.length - localZkeyFiles.length} zkey files locally`);
-    } else if (localZkeyFiles.length === s3ZkeyFiles.length && missingLocalFiles.some((file) => file.endsWith(".zkey"))) {
+    if (remoteZkeyFiles.length > localZkeyFiles.length) {
+      console.warn(`Missing ${remoteZkeyFiles.length - localZkeyFiles.length} zkey files locally`);
+    } else if (localZkeyFiles.length === remoteZkeyFiles.length && missingLocalFiles.some((file) => file.endsWith(".zkey"))) {
       console.log(`All zkey files are now available locally.`);
     }
 
     // Re-check after download
     if (missingLocalFiles.length > 0) {
       const newLocalFiles = getFilesRecursively(localPath)
+        .map((file) => file.split(path.sep).join("/"))
         .filter((file) => !shouldIgnoreFile(file))
         .sort();
 
-      const stillMissing = filteredS3Files.filter((file) => !newLocalFiles.includes(file));
+      const stillMissing = filteredRemoteFiles.filter((file) => !newLocalFiles.includes(file));
 
       if (stillMissing.length > 0) {
         console.warn(`Still missing ${stillMissing.length} files after download attempt.`);
@@ -419,25 +397,81 @@ export function crossCheckFilesWithS3(folderName: string): boolean {
 
     return missingLocalFiles.length === 0;
   } catch (error) {
-    console.error("Error cross-checking files with S3:", error);
+    console.error("Error cross-checking files with storage:", error);
     return false;
   }
 }
 
-// Function to ensure the PTAU file is available
-export function ensurePtauFile(): string {
-  const ptauFileName = "powersOfTau28_hez_final_18.ptau";
+export interface UploadedFileCheck {
+  file: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+// Confirm every local file of an uploaded folder is byte-for-byte the one in storage. The checksum storage keeps
+// is used when it has one, otherwise the file is downloaded again and hashed.
+export async function verifyUploadedFolder(folderName: string): Promise<UploadedFileCheck[]> {
+  const storage = getCeremonyStorage();
+  const localPath = path.join(contributionRootFolder, folderName);
+  const files = getFilesRecursively(localPath).map((file) => file.split(path.sep).join("/")).filter((file) => !shouldIgnoreFile(file)).sort();
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ceremony-upload-"));
+
+  try {
+    const results: UploadedFileCheck[] = [];
+    for (const file of files) {
+      const key = joinStorageKey(folderName, file);
+      const localFile = path.join(localPath, file);
+      let errorMessage: string | undefined;
+      try {
+        const stored = await storage.stat(key);
+        const localHash = computeFileHash(localFile);
+        if (!stored) {
+          errorMessage = "Not found in storage";
+        } else if (stored.size !== fs.statSync(localFile).size) {
+          errorMessage = `Size mismatch: ${stored.size} bytes in storage, ${fs.statSync(localFile).size} locally`;
+        } else {
+          let storedHash = stored.checksum;
+          if (!storedHash) {
+            const downloaded = path.join(tempDir, "download");
+            await storage.getFile(key, downloaded);
+            storedHash = computeFileHash(downloaded);
+            fs.removeSync(downloaded);
+          }
+          if (storedHash !== localHash) {
+            errorMessage = `SHA-256 mismatch: ${storedHash} in storage, ${localHash} locally`;
+          }
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+
+      if (errorMessage) {
+        console.error(`❌ ${folderName}/${file}: ${errorMessage}`);
+        results.push({ file, success: false, errorMessage });
+      } else {
+        results.push({ file, success: true });
+      }
+    }
+    return results;
+  } finally {
+    fs.removeSync(tempDir);
+  }
+}
+
+// Function to ensure the PTAU file is available and is the pinned one
+export async function ensurePtauFile(): Promise<string> {
+  const ptauConfig = getPtauConfig();
+  const ptauFileName = ptauConfig.fileName;
   const ptauLocalPath = path.join(contributionRootFolder, ptauFileName);
 
   // Check if PTAU file exists locally
   if (!fs.existsSync(ptauLocalPath)) {
-    console.log(`PTAU file not found locally. Downloading from S3...`);
+    console.log(`PTAU file not found locally. Downloading from storage...`);
     try {
       // Ensure the directory exists
       fs.ensureDirSync(contributionRootFolder);
 
-      // Use runAwsCommand for consistency
-      runAwsCommand(`aws s3 cp ${S3_BUCKET_PATH}/${ptauFileName} ${ptauLocalPath}`);
+      await getCeremonyStorage().getFile(ptauFileName, ptauLocalPath);
       console.log(`✅ PTAU file downloaded successfully!`);
     } catch (error) {
       console.error(`❌ Failed to download PTAU file`);
@@ -450,6 +484,9 @@ export function ensurePtauFile(): string {
     console.log(`Using existing PTAU file at ${ptauLocalPath}`);
   }
 
+  // A wrong or truncated ptau would only show up as confusing zkvi failures
+  verifyPtauIntegrity(ptauLocalPath, ptauConfig);
+
   return ptauLocalPath;
 }
 
@@ -457,3 +494,23 @@ export function ensurePtauFile(): string {
 export function getR1csFolderPath(): string {
   return path.join(process.cwd(), "r1cs");
 }
+
+// Locate the r1cs of a circuit, either in the r1cs/ folder or next to the initial zkeys
+export function findCircuitR1cs(circuitName: string): string | null {
+  const candidates = [
+    path.join(getR1csFolderPath(), `${circuitName}.r1cs`),
+    path.join(contributionRootFolder, getCeremonyConfig().initialFolder, `${circuitName}.r1cs`),
+  ];
+  return candidates.find((candidate) => fs.existsSync(candidate)) || null;
+}
+
+// Remove a contribution folder whose upload failed or doesn't match the local files, otherwise the next contributor
+// takes it for the latest contribution. Call it while still holding the contribution slot.
+export async function removeFailedUpload(folderName: string): Promise<void> {
+  try {
+    await getCeremonyStorage().deleteFolder(folderName);
+    console.log(`Removed the incomplete upload of ${folderName} from storage`);
+  } catch (error) {
+    console.error(`❌ Could not remove the incomplete upload of ${folderName} from storage, remove it before anyone else contributes:`, error);
+  }
+}
@@ -0,0 +1,279 @@
+import * as path from "path";
+import * as fs from "fs-extra";
+import { contributionRootFolder, getZkeyFiles, computeFileHash, findCircuitR1cs } from "./utils";
+import { getCeremonyConfig } from "./config";
+import { readAttestation, AttestationFile } from "./attestation";
+import { readZkeyMpcParams } from "./zkey";
+import { verifyFolderLayout } from "./layout";
+import { verifyChainOfCustody } from "./custody";
+import { verifyVerificationKeys } from "./vkey";
+import { verifyAttestationSignatures } from "./signing";
+import { verifyNewContributionReceipt } from "./receipt";
+import { VerificationCache } from "./verificationCache";
+import { runPool, getMemoryBoundJobs, formatDuration } from "./workerPool";
+import { verifyPtauIntegrity } from "./ptau";
+import { verifyZkeyFromInit, verifyZkeyFromR1cs, SnarkjsCheckResult } from "./snarkjsApi";
+
+// zkvi: contribution verified against the initial zkey and ptau
+// custody: contribution extends its predecessor and matches its attestation
+// vkey: committed verification keys match the zkeys and only delta changes along the chain
+// layout: folder has exactly the circuits and artifacts of the ceremony configuration
+// initial: initial zkey was set up from the published r1cs and the pinned ptau
+// signature: attestation is signed by a keyring key of its contributor and references its predecessor
+// receipt: contribution hashes published in the attestation appear in the zkeys of the last folder
+export type VerificationCheck = "zkvi" | "custody" | "vkey" | "layout" | "initial" | "signature" | "receipt";
+
+export interface VerificationResult {
+  contributionFolder: string;
+  circuitName: string;
+  check: VerificationCheck;
+  success: boolean;
+  errorMessage?: string;
+  // Set when the result was taken from the verification cache, the time it was originally verified
+  cachedAt?: string;
+  // Time spent verifying, for checks that were actually run
+  durationMs?: number;
+  // SHA-256 of the r1cs the initial zkey was checked against
+  r1csSha256?: string;
+}
+
+// Heap given to every verification, also used to limit the number of parallel jobs
+const DEFAULT_ZKVI_MEMORY_MB = 8192;
+
+export interface ZkviOptions {
+  cache?: VerificationCache;
+  // Verify again even if the cache has a result
+  force?: boolean;
+  // Number of verifications running at the same time, capped by the available memory
+  jobs?: number;
+}
+
+interface ZkviTask {
+  contributionFolder: string;
+  circuitName: string;
+  zkeyFile: string;
+  initialZkeyFile: string;
+  contributionZkeyFile: string;
+}
+
+export function getZkviMemoryMb(): number {
+  return parseInt(process.env.VERIFY_MEMORY_MB || "", 10) || DEFAULT_ZKVI_MEMORY_MB;
+}
+
+// Verified with the snarkjs API in a process limited to the zkvi memory. When captured, the snarkjs output only
+// ends up in the error message.
+export function verifyZkeyContribution(
+  initialZkeyFile: string,
+  ptauFile: string,
+  contributionZkeyFile: string,
+  captureOutput = false
+): Promise<SnarkjsCheckResult> {
+  return verifyZkeyFromInit(initialZkeyFile, ptauFile, contributionZkeyFile, getZkviMemoryMb(), captureOutput);
+}
+
+// Recompute the initial zkey from the r1cs and the ptau and compare it with the published one
+export function verifyInitialZkey(
+  r1csFile: string,
+  ptauFile: string,
+  initialZkeyFile: string,
+  captureOutput = false
+): Promise<SnarkjsCheckResult> {
+  return verifyZkeyFromR1cs(r1csFile, ptauFile, initialZkeyFile, getZkviMemoryMb(), captureOutput);
+}
+
+function getVerificationJobs(options: ZkviOptions): number {
+  const jobs = getMemoryBoundJobs(options.jobs || 1, getZkviMemoryMb());
+  if (options.jobs && jobs < options.jobs) {
+    console.warn(`⚠️ Running ${jobs} instead of ${options.jobs} parallel verifications, each one needs ${getZkviMemoryMb()} MB of memory`);
+  }
+  return jobs;
+}
+
+// Match every zkey of a folder with its initial zkey. Zkeys without one are reported right away as failed results.
+function planZkviTasks(contributionFolder: string, initialFolder: string): (ZkviTask | VerificationResult)[] {
+  const contributionZkeyFiles = getZkeyFiles(contributionFolder);
+  if (contributionZkeyFiles.length === 0) {
+    console.error(`No .zkey files found in ${contributionFolder}`);
+    return [{ contributionFolder, circuitName: "*", check: "zkvi", success: false, errorMessage: "No .zkey files found" }];
+  }
+
+  const initialZkeyFiles = getZkeyFiles(initialFolder);
+
+  return contributionZkeyFiles.map((zkeyFile) => {
+    // Extract circuit name from the zkey file
+    const circuitName = path.basename(zkeyFile, ".zkey");
+
+    // Find the matching initial zkey file with the same name
+    const initialZkeyFile = initialZkeyFiles.find(file => file === zkeyFile);
+
+    if (!initialZkeyFile) {
+      console.error(`❌ Could not find matching initial zkey file for ${zkeyFile}`);
+      return { contributionFolder, circuitName, check: "zkvi", success: false, errorMessage: "Missing initial zkey file" };
+    }
+
+    return {
+      contributionFolder,
+      circuitName,
+      zkeyFile,
+      initialZkeyFile: path.join(contributionRootFolder, initialFolder, initialZkeyFile),
+      contributionZkeyFile: path.join(contributionRootFolder, contributionFolder, zkeyFile),
+    };
+  });
+}
+
+// Verify every zkey of the given folders against the initial setup with snarkjs zkvi, through a pool of processes.
+// Results are in folder and circuit order whatever order the verifications complete in.
+export async function verifyContributions(
+  contributionFolders: string[],
+  initialFolder: string,
+  ptauFile: string,
+  options: ZkviOptions = {}
+): Promise<VerificationResult[]> {
+  // Stop right away on a wrong ptau instead of failing every zkvi run
+  verifyPtauIntegrity(ptauFile);
+
+  const planned = contributionFolders.flatMap((folder) => planZkviTasks(folder, initialFolder));
+  const tasks = planned.filter((item): item is ZkviTask => "zkeyFile" in item);
+
+  const jobs = getVerificationJobs(options);
+  // Parallel zkvi output would be interleaved, it is only shown for failures
+  const captureOutput = jobs > 1;
+  let started = 0;
+
+  const taskResults = await runPool(tasks, jobs, async (task): Promise<VerificationResult> => {
+    const label = `[${++started}/${tasks.length}] ${task.contributionFolder}/${task.zkeyFile}`;
+    const { contributionFolder, circuitName } = task;
+
+    const cached = options.cache && !options.force ? options.cache.lookup(task.initialZkeyFile, ptauFile, task.contributionZkeyFile) : null;
+    if (cached) {
+      console.log(`✅ ${label} already verified on ${cached.verifiedAt}, skipping (use --force to verify again)`);
+      return { contributionFolder, circuitName, check: "zkvi", success: true, cachedAt: cached.verifiedAt };
+    }
+
+    console.log(`\n⏳ ${label}: verifying using initial zkey file...`);
+    const { success, errorMessage, durationMs } = await verifyZkeyContribution(task.initialZkeyFile, ptauFile, task.contributionZkeyFile, captureOutput);
+
+    if (success) {
+      console.log(`✅ ${label} verification successful! (${formatDuration(durationMs)})`);
+      options.cache?.record(task.initialZkeyFile, ptauFile, task.contributionZkeyFile, contributionFolder, circuitName);
+    } else {
+      console.error(`❌ Failed to verify ${label} (${formatDuration(durationMs)})`);
+      console.error(errorMessage);
+    }
+
+    return { contributionFolder, circuitName, check: "zkvi", success, errorMessage, durationMs };
+  });
+
+  return planned.map((item) => ("zkeyFile" in item ? taskResults[tasks.indexOf(item)] : item));
+}
+
+// Check that every initial zkey was set up from the published r1cs and the pinned ptau, otherwise whoever controls
+// the storage could replace the base of the whole chain. The r1cs must also match the hashes pinned in ceremony.json
+// and recorded in the initial attestation, when they are present.
+export async function verifyInitialSetup(initialFolder: string, ptauFile: string, options: ZkviOptions = {}): Promise<VerificationResult[]> {
+  verifyPtauIntegrity(ptauFile);
+
+  let attestedR1cs: AttestationFile[] = [];
+  try {
+    attestedR1cs = readAttestation(initialFolder)?.r1cs || [];
+  } catch (error) {
+    console.warn(`⚠️ Ignoring the unreadable attestation of ${initialFolder}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { circuits } = getCeremonyConfig();
+  const jobs = getVerificationJobs(options);
+  const captureOutput = jobs > 1;
+  let started = 0;
+
+  return runPool(circuits, jobs, async (circuit): Promise<VerificationResult> => {
+    const circuitName = circuit.name;
+    const label = `[${++started}/${circuits.length}] ${initialFolder}/${circuitName}.zkey`;
+    const initialZkeyFile = path.join(contributionRootFolder, initialFolder, `${circuitName}.zkey`);
+    const failure = (errorMessage: string, r1csSha256?: string): VerificationResult => {
+      console.error(`❌ ${label}: ${errorMessage}`);
+      return { contributionFolder: initialFolder, circuitName, check: "initial", success: false, errorMessage, r1csSha256 };
+    };
+
+    const r1csFile = findCircuitR1cs(circuitName);
+    if (!r1csFile) {
+      return failure(`${circuitName}.r1cs not found in the r1cs folder or in ${initialFolder}`);
+    }
+    if (!fs.existsSync(initialZkeyFile)) {
+      return failure("Missing initial zkey file");
+    }
+
+    // zkv also accepts zkeys with contributions, the initial one must not have any
+    if (readZkeyMpcParams(initialZkeyFile).contributions.length > 0) {
+      return failure("The initial zkey already contains contributions");
+    }
+
+    const r1csSha256 = computeFileHash(r1csFile);
+    if (circuit.r1csSha256 && r1csSha256 !== circuit.r1csSha256) {
+      return failure(`${r1csFile} does not match the SHA-256 pinned in ceremony.json`, r1csSha256);
+    }
+    const attested = attestedR1cs.find((file) => file.filename === `${circuitName}.r1cs`);
+    if (attested && r1csSha256 !== attested.hash) {
+      return failure(`${r1csFile} does not match the SHA-256 recorded in the attestation of ${initialFolder}`, r1csSha256);
+    }
+    if (!circuit.r1csSha256) {
+      console.warn(`⚠️ ${circuitName}.r1cs is not pinned in ceremony.json, checking against ${r1csFile} (SHA-256 ${r1csSha256})`);
+    }
+
+    // Keyed like zkvi results, with the r1cs in place of the initial zkey
+    const cached = options.cache && !options.force ? options.cache.lookup(r1csFile, ptauFile, initialZkeyFile) : null;
+    if (cached) {
+      console.log(`✅ ${label} already verified on ${cached.verifiedAt}, skipping (use --force to verify again)`);
+      return { contributionFolder: initialFolder, circuitName, check: "initial", success: true, cachedAt: cached.verifiedAt, r1csSha256 };
+    }
+
+    console.log(`\n⏳ ${label}: verifying against ${r1csFile} and the ptau...`);
+    const { success, errorMessage, durationMs } = await verifyInitialZkey(r1csFile, ptauFile, initialZkeyFile, captureOutput);
+
+    if (success) {
+      console.log(`✅ ${label} was set up from ${circuitName}.r1cs (${formatDuration(durationMs)})`);
+      options.cache?.record(r1csFile, ptauFile, initialZkeyFile, initialFolder, circuitName);
+    } else {
+      console.error(`❌ ${label} was not set up from ${circuitName}.r1cs and the ptau (${formatDuration(durationMs)})`);
+      console.error(errorMessage);
+    }
+
+    return { contributionFolder: initialFolder, circuitName, check: "initial", success, errorMessage, durationMs, r1csSha256 };
+  });
+}
+
+export async function verifyContribution(
+  contributionFolder: string,
+  initialFolder: string,
+  ptauFile: string,
+  results: VerificationResult[],
+  options: ZkviOptions = {}
+): Promise<boolean> {
+  console.log(`\nVerifying contributions in ${contributionFolder}...`);
+  const folderResults = await verifyContributions([contributionFolder], initialFolder, ptauFile, options);
+  results.push(...folderResults);
+  return folderResults.every((result) => result.success);
+}
+
+// Fully verify a single new contribution folder: zkvi against the initial setup, chain of custody and verification keys against its predecessor
+export async function verifyNewContribution(contributionFolder: string, predecessorFolder: string, initialFolder: string, ptauFile: string): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = verifyFolderLayout(contributionFolder).map((layoutResult) => ({ ...layoutResult, check: "layout" }));
+  await verifyContribution(contributionFolder, initialFolder, ptauFile, results);
+
+  for (const custodyResult of verifyChainOfCustody([predecessorFolder, contributionFolder])) {
+    results.push({ ...custodyResult, check: "custody" });
+  }
+
+  for (const vkeyResult of await verifyVerificationKeys([predecessorFolder, contributionFolder])) {
+    results.push({ ...vkeyResult, check: "vkey" });
+  }
+
+  for (const signatureResult of verifyAttestationSignatures([predecessorFolder, contributionFolder], process.env.CEREMONY_ALLOW_UNSIGNED === "true")) {
+    results.push({ ...signatureResult, check: "signature" });
+  }
+
+  for (const receiptResult of verifyNewContributionReceipt(contributionFolder, predecessorFolder)) {
+    results.push({ ...receiptResult, check: "receipt" });
+  }
+
+  return results;
+}
@@ -0,0 +1,79 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder, computeFileHash } from "./utils";
+
+const CACHE_VERSION = 1;
+export const verificationCacheFileName = "verification-cache.json";
+
+export interface VerificationCacheEntry {
+  contributionFolder: string;
+  circuitName: string;
+  verifiedAt: string;
+}
+
+interface VerificationCacheFile {
+  version: number;
+  // Keyed by the hashes of the initial zkey, the ptau and the contribution zkey
+  entries: Record<string, VerificationCacheEntry>;
+}
+
+// Successful zkvi verifications, so links that were already verified are not verified again on every run.
+// Failures are never cached, they may have been caused by the machine (e.g. out of memory).
+export class VerificationCache {
+  private readonly fileHashes = new Map<string, string>();
+
+  private constructor(private readonly cachePath: string, private readonly entries: Record<string, VerificationCacheEntry>) {}
+
+  static load(cachePath = path.join(contributionRootFolder, verificationCacheFileName)): VerificationCache {
+    if (fs.existsSync(cachePath)) {
+      try {
+        const file = JSON.parse(fs.readFileSync(cachePath, "utf8")) as VerificationCacheFile;
+        if (file.version === CACHE_VERSION && file.entries) {
+          return new VerificationCache(cachePath, file.entries);
+        }
+        console.warn(`⚠️ Ignoring verification cache ${cachePath} with unsupported version ${file.version}`);
+      } catch (error) {
+        console.warn(`⚠️ Ignoring unreadable verification cache ${cachePath}`);
+      }
+    }
+    return new VerificationCache(cachePath, {});
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  // The ptau and initial zkeys are shared by every link, only hash each file once per run
+  hashFile(filePath: string): string {
+    const stat = fs.statSync(filePath);
+    const id = `${path.resolve(filePath)}:${stat.size}:${stat.mtimeMs}`;
+    let hash = this.fileHashes.get(id);
+    if (!hash) {
+      hash = computeFileHash(filePath);
+      this.fileHashes.set(id, hash);
+    }
+    return hash;
+  }
+
+  private key(initialZkeyFile: string, ptauFile: string, contributionZkeyFile: string): string {
+    return [initialZkeyFile, ptauFile, contributionZkeyFile].map((file) => this.hashFile(file)).join(":");
+  }
+
+  lookup(initialZkeyFile: string, ptauFile: string, contributionZkeyFile: string): VerificationCacheEntry | null {
+    return this.entries[this.key(initialZkeyFile, ptauFile, contributionZkeyFile)] || null;
+  }
+
+  record(initialZkeyFile: string, ptauFile: string, contributionZkeyFile: string, contributionFolder: string, circuitName: string): void {
+    this.entries[this.key(initialZkeyFile, ptauFile, contributionZkeyFile)] = {
+      contributionFolder,
+      circuitName,
+      verifiedAt: new Date().toISOString(),
+    };
+
+    // Saved after every verification so an interrupted run keeps its progress
+    const file: VerificationCacheFile = { version: CACHE_VERSION, entries: this.entries };
+    const tempPath = `${this.cachePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2));
+    fs.renameSync(tempPath, this.cachePath);
+  }
+}
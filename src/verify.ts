@@ -1,91 +1,18 @@
-import { execSync } from "child_process";
-import * as path from "path";
 import * as fs from "fs-extra";
-import { contributionRootFolder, getContributionFolders, getZkeyFiles, downloadFromS3, ensureInitialSetup, ensurePtauFile, checkRequiredEnvVars } from "./utils";
-
-interface VerificationResult {
-  contributionFolder: string;
-  circuitName: string;
-  success: boolean;
-  errorMessage?: string;
-}
-
-function verifyZkeyContribution(initialZkeyFile: string, ptauFile: string, contributionZkeyFile: string): { success: boolean; errorMessage?: string } {
-  try {
-    // Use the zkvi command with the initial zkey file
-    execSync(`node --max-old-space-size=8192 ./node_modules/.bin/snarkjs zkvi ${initialZkeyFile} ${ptauFile} ${contributionZkeyFile}`, {
-      stdio: "inherit",
-    });
-    console.log(`✅ ${path.basename(contributionZkeyFile)} verification successful!`);
-    return { success: true };
-  } catch (error) {
-    console.error(`❌ Failed to verify ${path.basename(contributionZkeyFile)}`);
-    let errorMessage = "Unknown error";
-    if (error instanceof Error) {
-      console.error(error.message);
-      errorMessage = error.message;
-    }
-    return { success: false, errorMessage };
-  }
-}
-
-function verifyContribution(contributionFolder: string, initialFolder: string, ptauFile: string, results: VerificationResult[]): boolean {
-  console.log(`\nVerifying contributions in ${contributionFolder}...`);
-
-  // Get contribution zkey files
-  const contributionZkeyFiles = getZkeyFiles(contributionFolder);
-  if (contributionZkeyFiles.length === 0) {
-    console.error(`No .zkey files found in ${contributionFolder}`);
-    return false;
-  }
-
-  // Get initial zkey files
-  const initialZkeyFiles = getZkeyFiles(initialFolder);
-  if (initialZkeyFiles.length === 0) {
-    console.error(`No .zkey files found in ${initialFolder}`);
-    return false;
-  }
-
-  let allSuccessful = true;
-  for (const zkeyFile of contributionZkeyFiles) {
-    // Extract circuit name from the zkey file
-    const circuitName = path.basename(zkeyFile, ".zkey");
-
-    // Find the matching initial zkey file with the same name
-    const initialZkeyFile = initialZkeyFiles.find(file => file === zkeyFile);
-
-    if (!initialZkeyFile) {
-      console.error(`❌ Could not find matching initial zkey file for ${zkeyFile}`);
-      results.push({
-        contributionFolder,
-        circuitName,
-        success: false,
-        errorMessage: "Missing initial zkey file"
-      });
-      allSuccessful = false;
-      continue;
-    }
-
-    const fullInitialZkeyPath = path.join(contributionRootFolder, initialFolder, initialZkeyFile);
-    const fullContributionZkeyPath = path.join(contributionRootFolder, contributionFolder, zkeyFile);
-
-    console.log(`\nVerifying ${zkeyFile} using initial zkey file...`);
-    const { success, errorMessage } = verifyZkeyContribution(fullInitialZkeyPath, ptauFile, fullContributionZkeyPath);
-
-    results.push({
-      contributionFolder,
-      circuitName,
-      success,
-      errorMessage
-    });
-
-    if (!success) {
-      allSuccessful = false;
-    }
-  }
-
-  return allSuccessful;
-}
+import { parseArgs } from "util";
+import { contributionRootFolder, getContributionFolders, downloadFromStorage, ensureInitialSetup, ensurePtauFile, checkRequiredEnvVars, isFinalFolder } from "./utils";
+import { verifyChainOfCustody } from "./custody";
+import { verifyVerificationKeys } from "./vkey";
+import { verifyAttestationSignatures, getKeyringPath } from "./signing";
+import { verifyContributionReceipts } from "./receipt";
+import { releaseSnarkjs } from "./snarkjsApi";
+import { verifyContributions, verifyInitialSetup, VerificationResult } from "./verification";
+import { VerificationCache } from "./verificationCache";
+import { formatDuration } from "./workerPool";
+import { verifyPtauTranscript } from "./ptau";
+import { getCeremonyConfig } from "./config";
+import { assertInitialSetup, verifyFolderLayout } from "./layout";
+import { buildVerificationReport, getDefaultReportFile, reportFormats, writeVerificationReport, ReportFormat } from "./report";
 
 function printResultsTable(results: VerificationResult[]): void {
   console.log("\n\n=== VERIFICATION SUMMARY ===\n");
@@ -115,9 +42,13 @@ function printResultsTable(results: VerificationResult[]): void {
     const folderResults = folderGroups[folder];
     const resultByCircuit: Record<string, string> = {};
 
-    // Prepare results for each circuit
-    folderResults.forEach(result => {
-      resultByCircuit[result.circuitName] = result.success ? "✅ PASS" : "❌ FAIL";
+    // Prepare results for each circuit, a circuit only passes if every check on it passed
+    const allCircuitsInFolder = [...new Set(folderResults.map(r => r.circuitName))];
+    allCircuitsInFolder.forEach(circuit => {
+      const circuitResults = folderResults.filter(r => r.circuitName === circuit);
+      const failedChecks = circuitResults.filter(r => !r.success).map(r => r.check);
+      const cached = circuitResults.some(r => r.cachedAt);
+      resultByCircuit[circuit] = failedChecks.length > 0 ? `❌ FAIL (${failedChecks.join(", ")})` : cached ? "✅ PASS (cached)" : "✅ PASS";
     });
 
     // Print the row
@@ -136,16 +67,69 @@ function printResultsTable(results: VerificationResult[]): void {
   console.log(`Passed: ${passedTests}`);
   console.log(`Failed: ${failedTests}`);
 
+  const initialResults = results.filter(r => r.check === "initial");
+  if (initialResults.length > 0) {
+    console.log("\n=== INITIAL SETUP ===");
+    initialResults.forEach(result => {
+      console.log(`${result.circuitName}: ${result.success ? "✅ genuine" : "❌ not verified"}, r1cs SHA-256 ${result.r1csSha256 || "unknown"}`);
+    });
+  }
+
+  const timedResults = results.filter(r => r.durationMs !== undefined);
+  if (timedResults.length > 0) {
+    console.log("\n=== VERIFICATION TIMES ===");
+    timedResults.forEach(result => {
+      console.log(`${result.contributionFolder} - ${result.circuitName} [${result.check}]: ${formatDuration(result.durationMs as number)}`);
+    });
+  }
+
+  const cachedResults = results.filter(r => r.cachedAt);
+  if (cachedResults.length > 0) {
+    console.log(`From cache: ${cachedResults.length}`);
+    console.log("\n=== CACHED VERIFICATIONS ===");
+    cachedResults.forEach(result => {
+      console.log(`${result.contributionFolder} - ${result.circuitName} [${result.check}]: verified on ${result.cachedAt}`);
+    });
+  }
+
   if (failedTests > 0) {
     console.log("\n=== FAILED VERIFICATIONS ===");
     results.filter(r => !r.success).forEach(result => {
-      console.log(`❌ ${result.contributionFolder} - ${result.circuitName}: ${result.errorMessage || "Verification failed"}`);
+      console.log(`❌ ${result.contributionFolder} - ${result.circuitName} [${result.check}]: ${result.errorMessage || "Verification failed"}`);
     });
   }
 }
 
-function main(): void {
+async function main(): Promise<void> {
   try {
+    const { values } = parseArgs({
+      args: process.argv.slice(2),
+      options: {
+        force: { type: "boolean" },
+        jobs: { type: "string", short: "j" },
+        report: { type: "string" },
+        out: { type: "string" },
+        "verify-ptau": { type: "boolean" },
+        "allow-unsigned": { type: "boolean" },
+      },
+    });
+
+    const reportFormat = values.report as ReportFormat | undefined;
+    if (reportFormat && !reportFormats.includes(reportFormat)) {
+      throw new Error(`--report must be one of ${reportFormats.join(", ")}, got ${values.report}`);
+    }
+    if (values.out && !reportFormat) {
+      throw new Error("--out requires --report");
+    }
+
+    const jobs = values.jobs === undefined ? 1 : parseInt(values.jobs, 10);
+    if (!(jobs >= 1)) {
+      throw new Error(`--jobs must be a positive number, got ${values.jobs}`);
+    }
+
+    const ceremony = getCeremonyConfig();
+    console.log(`Verifying ceremony ${ceremony.ceremonyId}: ${ceremony.circuits.length} circuits`);
+
     // Check for required environment variables
     checkRequiredEnvVars();
 
@@ -153,11 +137,16 @@ function main(): void {
     fs.ensureDirSync(contributionRootFolder);
 
     // Ensure we have the PTAU file
-    const ptauFile = ensurePtauFile();
+    const ptauFile = await ensurePtauFile();
     console.log(`Using ptau file: ${ptauFile}`);
 
+    // Optionally verify the whole phase 1 transcript, not only that the file is the pinned one
+    if (values["verify-ptau"] || process.env.CEREMONY_PTAU_FULL_VERIFY === "true") {
+      verifyPtauTranscript(ptauFile);
+    }
+
     // Ensure we have the initial setup
-    ensureInitialSetup();
+    await ensureInitialSetup();
 
     // Check if we need to download more contributions
     const localContributionFolders = getContributionFolders();
@@ -165,16 +154,16 @@ function main(): void {
     if (localContributionFolders.length > 0) {
       console.log(`Found ${localContributionFolders.length} local contribution folders.`);
 
-      // If we only have the initial setup locally, download all contributions from S3
+      // If we only have the initial setup locally, download all contributions from storage
       if (localContributionFolders.length === 1) {
-        console.log("Only initial setup found locally. Downloading all contributions from S3...");
-        downloadFromS3();
+        console.log("Only initial setup found locally. Downloading all contributions from storage...");
+        await downloadFromStorage();
       } else {
         console.log("Using already downloaded contributions. If you want to download the latest, delete the contributions folder and run again.");
       }
     } else {
-      console.log("No contributions found locally. Downloading all contributions from S3...");
-      downloadFromS3();
+      console.log("No contributions found locally. Downloading all contributions from storage...");
+      await downloadFromStorage();
     }
 
     // Refresh the list of contribution folders after potential downloads
@@ -187,20 +176,86 @@ function main(): void {
       return;
     }
 
-    const initialFolder = contributionFolders[0]; // 0000_initial
+    const initialFolder = contributionFolders[0];
+    if (initialFolder !== ceremony.initialFolder) {
+      throw new Error(`Expected ${ceremony.initialFolder} to be the first folder, found ${initialFolder}`);
+    }
+    assertInitialSetup();
+
+    // Links verified by earlier runs are skipped unless --force is given
+    const cache = VerificationCache.load();
+    if (values.force) {
+      console.log("--force given, verifying every contribution again.");
+    } else if (cache.size > 0) {
+      console.log(`Loaded ${cache.size} cached verification results.`);
+    }
+
+    // Folders with missing or unexpected circuits are rejected, not silently verified on the circuits they have
+    console.log("\nVerifying folder layouts...");
+    const layoutResults: VerificationResult[] = contributionFolders
+      .slice(1)
+      .flatMap((folder) => verifyFolderLayout(folder))
+      .map((layoutResult) => ({ ...layoutResult, check: "layout" }));
+
+    // The initial zkeys are the base of the chain, check they come from the published circuits
+    console.log("\nVerifying the initial setup against the r1cs files and the ptau...");
+    const verificationResults: VerificationResult[] = await verifyInitialSetup(initialFolder, ptauFile, { cache, force: values.force, jobs });
+
+    // Verify every circuit of every contribution, starting from the first non-initial contribution
+    verificationResults.push(...(await verifyContributions(contributionFolders.slice(1), initialFolder, ptauFile, {
+      cache,
+      force: values.force,
+      jobs,
+    })));
+
+    verificationResults.push(...layoutResults);
+
+    // Check that every folder was built on the previous one and matches its attestation
+    console.log("\nVerifying chain of custody...");
+    for (const custodyResult of verifyChainOfCustody(contributionFolders)) {
+      verificationResults.push({ ...custodyResult, check: "custody" });
+    }
 
-    // Track verification results
-    const verificationResults: VerificationResult[] = [];
+    // Check the committed verification keys and that every contribution changed delta and nothing else
+    console.log("\nVerifying verification keys...");
+    for (const vkeyResult of await verifyVerificationKeys(contributionFolders)) {
+      verificationResults.push({ ...vkeyResult, check: "vkey" });
+    }
 
-    // Verify each contribution individually, starting from the first non-initial contribution
-    for (let i = 1; i < contributionFolders.length; i++) {
-      const currentFolder = contributionFolders[i];
-      verifyContribution(currentFolder, initialFolder, ptauFile, verificationResults);
+    // Check that every attestation was signed by its contributor, with the keys of the keyring
+    console.log(`\nVerifying attestation signatures with the keyring ${getKeyringPath()}...`);
+    const allowUnsigned = values["allow-unsigned"] || process.env.CEREMONY_ALLOW_UNSIGNED === "true";
+    for (const signatureResult of verifyAttestationSignatures(contributionFolders, allowUnsigned)) {
+      verificationResults.push({ ...signatureResult, check: "signature" });
+    }
+
+    // Check that the contribution hashes contributors published as receipts made it into the final zkeys
+    console.log(`\nVerifying contribution receipts against ${contributionFolders[contributionFolders.length - 1]}...`);
+    for (const receiptResult of verifyContributionReceipts(contributionFolders)) {
+      verificationResults.push({ ...receiptResult, check: "receipt" });
     }
 
     // Print summary table
     printResultsTable(verificationResults);
 
+    if (reportFormat) {
+      const reportFile = values.out || getDefaultReportFile(reportFormat);
+      writeVerificationReport(buildVerificationReport(verificationResults, contributionFolders, ptauFile), reportFormat, reportFile);
+      console.log(`\nVerification report written to ${reportFile}`);
+    }
+
+    const lastFolder = contributionFolders[contributionFolders.length - 1];
+    if (isFinalFolder(lastFolder)) {
+      console.log(`\nThe ceremony was finalized with a random beacon in ${lastFolder}, the chain was verified up to the final zkeys.`);
+    } else {
+      console.log("\n⚠️ The ceremony has not been finalized with a random beacon yet.");
+    }
+
+    // Let CI gate on the verification result
+    if (verificationResults.some(r => !r.success)) {
+      process.exitCode = 1;
+    }
+
   } catch (error) {
     if (error instanceof Error) {
       console.error(`Error: ${error.message}`);
@@ -208,6 +263,8 @@ function main(): void {
       console.error(`Unknown error occurred: ${error}`);
     }
     process.exit(1);
+  } finally {
+    await releaseSnarkjs();
   }
 }
 
@@ -0,0 +1,129 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { contributionRootFolder, getZkeyFiles } from "./utils";
+import { exportZkeyVerificationKey } from "./snarkjsApi";
+
+export interface VkeyCheckResult {
+  contributionFolder: string;
+  circuitName: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+type VerificationKey = Record<string, unknown>;
+
+// Fixed by the circuit and the initial setup, contributions must not change them
+const CONSTANT_VKEY_FIELDS = ["protocol", "curve", "nPublic", "vk_alpha_1", "vk_beta_2", "vk_gamma_2", "IC"];
+// Every contribution multiplies delta by its secret, so it must change from one folder to the next
+const CONTRIBUTED_VKEY_FIELD = "vk_delta_2";
+
+export function getVerificationKeyFileName(zkeyFile: string): string {
+  return zkeyFile.replace(".zkey", "_verification_key.json");
+}
+
+// Export the verification key of a zkey with snarkjs, as it would be written to the JSON file
+export async function exportVerificationKey(zkeyPath: string): Promise<VerificationKey> {
+  try {
+    return await exportZkeyVerificationKey(zkeyPath);
+  } catch (error) {
+    throw new Error(`snarkjs could not export the verification key of ${zkeyPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Names of the top level fields whose values differ between two verification keys
+export function diffVerificationKeys(a: VerificationKey, b: VerificationKey, fields?: string[]): string[] {
+  const keys = fields || [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  return keys.filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key])).sort();
+}
+
+// Lazily export and memoize the verification key of every zkey, each folder is compared with both neighbours
+function createVkeyLoader(): (folder: string, zkeyFile: string) => Promise<VerificationKey> {
+  const cache = new Map<string, Promise<VerificationKey>>();
+  return (folder: string, zkeyFile: string) => {
+    const key = path.join(folder, zkeyFile);
+    let vkey = cache.get(key);
+    if (!vkey) {
+      vkey = exportVerificationKey(path.join(contributionRootFolder, folder, zkeyFile));
+      cache.set(key, vkey);
+    }
+    return vkey;
+  };
+}
+
+function checkCommittedVkey(folder: string, zkeyFile: string, exported: VerificationKey): string | null {
+  const vkeyFile = getVerificationKeyFileName(zkeyFile);
+  const vkeyPath = path.join(contributionRootFolder, folder, vkeyFile);
+  if (!fs.existsSync(vkeyPath)) {
+    return `Missing ${vkeyFile}`;
+  }
+
+  let committed: VerificationKey;
+  try {
+    committed = JSON.parse(fs.readFileSync(vkeyPath, "utf8"));
+  } catch (error) {
+    return `${vkeyFile} is not valid JSON`;
+  }
+
+  const differences = diffVerificationKeys(committed, exported);
+  return differences.length === 0 ? null : `${vkeyFile} does not match the zkey (differs in ${differences.join(", ")})`;
+}
+
+function checkVkeyEvolution(current: VerificationKey, previous: VerificationKey, previousFolder: string): string[] {
+  const errors: string[] = [];
+
+  const changed = diffVerificationKeys(current, previous, CONSTANT_VKEY_FIELDS);
+  if (changed.length > 0) {
+    errors.push(`${changed.join(", ")} changed from ${previousFolder}, only ${CONTRIBUTED_VKEY_FIELD} may change`);
+  }
+  if (diffVerificationKeys(current, previous, [CONTRIBUTED_VKEY_FIELD]).length === 0) {
+    errors.push(`No-op contribution: ${CONTRIBUTED_VKEY_FIELD} is unchanged from ${previousFolder}`);
+  }
+
+  return errors;
+}
+
+// Re-export the verification key of every zkey and check it against the committed JSON and the previous folder:
+// the circuit constants stay the same along the chain while delta changes with every contribution
+export async function verifyVerificationKeys(contributionFolders: string[]): Promise<VkeyCheckResult[]> {
+  const results: VkeyCheckResult[] = [];
+  const loadVkey = createVkeyLoader();
+
+  for (let i = 1; i < contributionFolders.length; i++) {
+    const folder = contributionFolders[i];
+    const previousFolder = contributionFolders[i - 1];
+    const previousZkeys = getZkeyFiles(previousFolder);
+    console.log(`\nChecking verification keys of ${folder} (predecessor ${previousFolder})...`);
+
+    for (const zkeyFile of getZkeyFiles(folder)) {
+      const circuitName = path.basename(zkeyFile, ".zkey");
+      const errors: string[] = [];
+
+      try {
+        const current = await loadVkey(folder, zkeyFile);
+
+        const committedError = checkCommittedVkey(folder, zkeyFile, current);
+        if (committedError) {
+          errors.push(committedError);
+        }
+
+        // A zkey without predecessor is reported by the chain of custody check
+        if (previousZkeys.includes(zkeyFile)) {
+          errors.push(...checkVkeyEvolution(current, await loadVkey(previousFolder, zkeyFile), previousFolder));
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `${error}`);
+      }
+
+      if (errors.length === 0) {
+        console.log(`✅ ${folder}/${getVerificationKeyFileName(zkeyFile)} matches its zkey`);
+        results.push({ contributionFolder: folder, circuitName, success: true });
+      } else {
+        const errorMessage = errors.join("; ");
+        console.error(`❌ ${folder}/${zkeyFile}: ${errorMessage}`);
+        results.push({ contributionFolder: folder, circuitName, success: false, errorMessage });
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,34 @@
+import * as os from "os";
+
+// Run the worker over all items with at most `jobs` running at the same time.
+// Results are returned in the order of the items, whatever order they complete in.
+export async function runPool<T, R>(items: T[], jobs: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function runWorker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(jobs, items.length)) }, () => runWorker());
+  await Promise.all(workers);
+  return results;
+}
+
+// Limit the number of jobs so that each of them can get the memory it needs, keeping some room for the rest of the system
+export function getMemoryBoundJobs(requestedJobs: number, memoryPerJobMb: number): number {
+  const availableMb = Math.floor((os.totalmem() / (1024 * 1024)) * 0.9);
+  const memoryBound = Math.max(1, Math.floor(availableMb / memoryPerJobMb));
+  return Math.max(1, Math.min(requestedJobs, memoryBound));
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
@@ -0,0 +1,251 @@
+import * as fs from "fs-extra";
+import * as crypto from "crypto";
+
+// Section ids used by snarkjs in the zkey binary format
+const ZKEY_HEADER_SECTION = 1;
+const ZKEY_GROTH16_HEADER_SECTION = 2;
+const ZKEY_MPC_PARAMS_SECTION = 10;
+const GROTH16_PROTOCOL_ID = 1;
+
+export interface ZkeyContributionRecord {
+  // The full serialized contribution as stored in the zkey, used for byte-exact comparisons
+  raw: Buffer;
+  deltaAfter: Buffer;
+  transcript: Buffer;
+  type: number;
+  name?: string;
+  numIterationsExp?: number;
+  beaconHash?: Buffer;
+  // Blake2b-512 of the public key and transcript, the "Contribution Hash" snarkjs prints when contributing
+  contributionHash: Buffer;
+}
+
+export interface ZkeyMpcParams {
+  csHash: Buffer;
+  contributions: ZkeyContributionRecord[];
+}
+
+interface ZkeySection {
+  position: number;
+  size: number;
+}
+
+// Thin synchronous reader over a zkey file which only loads the sections it is asked for,
+// so we never need to hold a multi-hundred-megabyte zkey in memory
+class ZkeyFileReader {
+  private readonly fd: number;
+  private readonly sections: Map<number, ZkeySection[]> = new Map();
+
+  constructor(private readonly filePath: string) {
+    this.fd = fs.openSync(filePath, "r");
+    try {
+      this.scanSections();
+    } catch (error) {
+      fs.closeSync(this.fd);
+      throw error;
+    }
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+
+  readSection(sectionId: number): Buffer {
+    const entries = this.sections.get(sectionId);
+    if (!entries || entries.length === 0) {
+      throw new Error(`${this.filePath}: missing section ${sectionId}`);
+    }
+    if (entries.length > 1) {
+      throw new Error(`${this.filePath}: section ${sectionId} is duplicated`);
+    }
+    return this.read(entries[0].position, entries[0].size);
+  }
+
+  private read(position: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    const bytesRead = fs.readSync(this.fd, buffer, 0, length, position);
+    if (bytesRead !== length) {
+      throw new Error(`${this.filePath}: unexpected end of file (truncated zkey?)`);
+    }
+    return buffer;
+  }
+
+  private scanSections(): void {
+    const header = this.read(0, 12);
+    if (header.toString("ascii", 0, 4) !== "zkey") {
+      throw new Error(`${this.filePath}: invalid file format, not a zkey file`);
+    }
+
+    const nSections = header.readUInt32LE(8);
+    const fileSize = fs.fstatSync(this.fd).size;
+    let position = 12;
+
+    for (let i = 0; i < nSections; i++) {
+      const sectionHeader = this.read(position, 12);
+      const sectionId = sectionHeader.readUInt32LE(0);
+      const size = Number(sectionHeader.readBigUInt64LE(4));
+      position += 12;
+
+      if (position + size > fileSize) {
+        throw new Error(`${this.filePath}: section ${sectionId} exceeds file size (truncated zkey?)`);
+      }
+
+      const entries = this.sections.get(sectionId) || [];
+      entries.push({ position, size });
+      this.sections.set(sectionId, entries);
+      position += size;
+    }
+  }
+}
+
+interface BaseField {
+  n8q: number;
+  q: bigint;
+  // Inverse of the Montgomery factor 2^(8 * n8q) modulo q
+  rInv: bigint;
+}
+
+function readBigIntLE(buffer: Buffer): bigint {
+  return buffer.length === 0 ? 0n : BigInt(`0x${Buffer.from(buffer).reverse().toString("hex")}`);
+}
+
+function modInverse(a: bigint, modulus: bigint): bigint {
+  let [oldR, r] = [a % modulus, modulus];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return ((oldS % modulus) + modulus) % modulus;
+}
+
+// Read the base field (size and prime) from the Groth16 header
+function readBaseField(reader: ZkeyFileReader): BaseField {
+  const protocolId = reader.readSection(ZKEY_HEADER_SECTION).readUInt32LE(0);
+  if (protocolId !== GROTH16_PROTOCOL_ID) {
+    throw new Error(`Unsupported zkey protocol id ${protocolId}, only groth16 is supported`);
+  }
+  const header = reader.readSection(ZKEY_GROTH16_HEADER_SECTION);
+  const n8q = header.readUInt32LE(0);
+  const q = readBigIntLE(header.subarray(4, 4 + n8q));
+  return { n8q, q, rInv: modInverse((1n << BigInt(8 * n8q)) % q, q) };
+}
+
+// Field element stored in little-endian Montgomery form, as the big-endian plain value snarkjs hashes
+function toPlainBE(element: Buffer, field: BaseField): Buffer {
+  const value = (readBigIntLE(element) * field.rInv) % field.q;
+  return Buffer.from(value.toString(16).padStart(field.n8q * 2, "0"), "hex");
+}
+
+// Uncompressed big-endian encoding snarkjs hashes points with (toRprUncompressed), from the stored affine point.
+// G2 coordinates are pairs (c0, c1) of base field elements, serialized c1 first.
+function toUncompressedPoint(point: Buffer, field: BaseField, coordinateSize: number): Buffer {
+  if (point.every((byte) => byte === 0)) {
+    const infinity = Buffer.alloc(point.length);
+    infinity[0] = 0x40;
+    return infinity;
+  }
+
+  const elements: Buffer[] = [];
+  for (let offset = 0; offset < point.length; offset += field.n8q) {
+    elements.push(toPlainBE(point.subarray(offset, offset + field.n8q), field));
+  }
+  if (coordinateSize === field.n8q) {
+    return Buffer.concat(elements);
+  }
+  // x.c1, x.c0, y.c1, y.c0
+  return Buffer.concat([elements[1], elements[0], elements[3], elements[2]]);
+}
+
+// Same as hashPubKey of snarkjs: deltaAfter, g1_s, g1_sx, g2_spx and the transcript
+function computeContributionHash(serialized: Buffer, field: BaseField): Buffer {
+  const g1Size = field.n8q * 2;
+  const g2Size = field.n8q * 4;
+  const hasher = crypto.createHash("blake2b512");
+  for (let i = 0; i < 3; i++) {
+    hasher.update(toUncompressedPoint(serialized.subarray(i * g1Size, (i + 1) * g1Size), field, field.n8q));
+  }
+  hasher.update(toUncompressedPoint(serialized.subarray(g1Size * 3, g1Size * 3 + g2Size), field, field.n8q * 2));
+  hasher.update(serialized.subarray(g1Size * 3 + g2Size, g1Size * 3 + g2Size + 64));
+  return hasher.digest();
+}
+
+// Contribution hash in hex, grouped in four lines of four words like snarkjs prints it
+export function formatContributionHash(hash: string, indent = "\t\t"): string {
+  const words = hash.match(/.{1,8}/g) || [];
+  return [0, 4, 8, 12].map((i) => `${indent}${words.slice(i, i + 4).join(" ")}`).join("\n");
+}
+
+function parseContribution(section: Buffer, offset: number, field: BaseField): { record: ZkeyContributionRecord; next: number } {
+  const g1Size = field.n8q * 2;
+  const g2Size = field.n8q * 4;
+  const start = offset;
+
+  const deltaAfter = section.subarray(offset, offset + g1Size);
+  // Skip deltaAfter, g1_s, g1_sx and g2_spx
+  offset += g1Size * 3 + g2Size;
+  const transcript = section.subarray(offset, offset + 64);
+  offset += 64;
+  const type = section.readUInt32LE(offset);
+  offset += 4;
+  const paramLength = section.readUInt32LE(offset);
+  offset += 4;
+
+  const record: ZkeyContributionRecord = {
+    raw: Buffer.alloc(0),
+    deltaAfter: Buffer.from(deltaAfter),
+    transcript: Buffer.from(transcript),
+    type,
+    contributionHash: computeContributionHash(section.subarray(start), field),
+  };
+
+  const paramsEnd = offset + paramLength;
+  while (offset < paramsEnd) {
+    const paramType = section[offset++];
+    if (paramType === 1) {
+      const length = section[offset++];
+      record.name = section.toString("utf8", offset, offset + length);
+      offset += length;
+    } else if (paramType === 2) {
+      record.numIterationsExp = section[offset++];
+    } else if (paramType === 3) {
+      const length = section[offset++];
+      record.beaconHash = Buffer.from(section.subarray(offset, offset + length));
+      offset += length;
+    } else {
+      throw new Error(`Unrecognized contribution parameter type ${paramType}`);
+    }
+  }
+
+  if (offset !== paramsEnd) {
+    throw new Error("Contribution parameters do not match their declared length");
+  }
+
+  record.raw = Buffer.from(section.subarray(start, offset));
+  return { record, next: offset };
+}
+
+// Read the MPC parameters (circuit hash and list of phase 2 contributions) embedded in a zkey
+export function readZkeyMpcParams(zkeyPath: string): ZkeyMpcParams {
+  const reader = new ZkeyFileReader(zkeyPath);
+  try {
+    const field = readBaseField(reader);
+    const section = reader.readSection(ZKEY_MPC_PARAMS_SECTION);
+
+    const csHash = Buffer.from(section.subarray(0, 64));
+    const nContributions = section.readUInt32LE(64);
+    const contributions: ZkeyContributionRecord[] = [];
+
+    let offset = 68;
+    for (let i = 0; i < nContributions; i++) {
+      const { record, next } = parseContribution(section, offset, field);
+      contributions.push(record);
+      offset = next;
+    }
+
+    return { csHash, contributions };
+  } finally {
+    reader.close();
+  }
+}